@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Vanilla ID Extractor
+ * Scans the game's data files for definition objects and records their IDs,
+ * so the validator can treat references to base game content as defined.
+ *
+ * Usage: node extract_vanilla_ids.cjs [gameDataDir] [gameVersion]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const schemaData = require('./src/mod-schema.json');
+
+/**
+ * Recursively find all data files in a directory
+ * @param {string} dir - Directory to search
+ * @returns {string[]} - Paths of all .txt files, sorted for stable output
+ */
+function findDataFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findDataFiles(fullPath));
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.txt')) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Get the definition type an object header refers to, or null if it isn't a definition
+ * Type aliases are resolved to check the category, and functional aliases are resolved
+ * for the key (matching how the validator groups definitions, e.g. ActionAOE -> ActionAoE)
+ * @param {string} typeName - The object type from the [Header]
+ * @returns {string|null}
+ */
+function getDefinitionType(typeName) {
+  const classSchema = schemaData.schema[schemaData.typeAliases[typeName] || typeName];
+  if (!classSchema || classSchema.category !== 'definition') {
+    return null;
+  }
+  return schemaData.functionalAliases[typeName] || typeName;
+}
+
+/**
+ * Extract definition IDs from a data file
+ * @param {string} content - The data file content
+ * @returns {Array<{type: string, id: string}>}
+ */
+function extractIdsFromFile(content) {
+  // Strip comments (-- until end of line)
+  const stripped = content.replace(/--.*$/gm, '');
+  const results = [];
+
+  // Split into objects at each [Header]; the body runs until the next header
+  const headerRegex = /\[(\w+)\]/g;
+  const headers = [];
+  let match;
+  while ((match = headerRegex.exec(stripped)) !== null) {
+    headers.push({ type: match[1], bodyStart: match.index + match[0].length, start: match.index });
+  }
+
+  headers.forEach((header, i) => {
+    const type = getDefinitionType(header.type);
+    if (!type) return;
+
+    const bodyEnd = i + 1 < headers.length ? headers[i + 1].start : stripped.length;
+    const body = stripped.slice(header.bodyStart, bodyEnd);
+    const idMatch = body.match(/(?:^|[;\s])ID\s*=\s*([^;]*);/);
+    const id = idMatch?.[1].trim();
+    if (id) {
+      results.push({ type, id });
+    }
+  });
+
+  return results;
+}
+
+// Main execution
+const tasksData = require('./src/tasks.json');
+const gameDataDir = process.argv[2] || path.join(__dirname, '../Tactics/Content/data');
+const gameVersion = process.argv[3] || tasksData.gameVersion;
+
+if (!fs.existsSync(gameDataDir)) {
+  console.error(`Game data directory not found: ${gameDataDir}`);
+  console.error('Usage: node extract_vanilla_ids.cjs [gameDataDir] [gameVersion]');
+  process.exit(1);
+}
+
+const definitions = {};
+const files = findDataFiles(gameDataDir);
+for (const file of files) {
+  const ids = extractIdsFromFile(fs.readFileSync(file, 'utf-8'));
+  for (const { type, id } of ids) {
+    if (!definitions[type]) {
+      definitions[type] = new Set();
+    }
+    definitions[type].add(id);
+  }
+}
+
+// Sort types and IDs for stable diffs between game versions
+const output = {
+  gameVersion,
+  definitions: Object.fromEntries(
+    Object.keys(definitions)
+      .sort()
+      .map(type => [type, Array.from(definitions[type]).sort()])
+  ),
+};
+
+const outputPath = path.join(__dirname, 'src/vanilla-ids.json');
+fs.writeFileSync(outputPath, JSON.stringify(output, null, 2) + '\n');
+
+console.log(`\n✅ Vanilla IDs extracted to ${outputPath}`);
+console.log(`Scanned ${files.length} data files for game version ${gameVersion}`);
+for (const [type, ids] of Object.entries(output.definitions)) {
+  console.log(`  ${type}: ${ids.length} IDs`);
+}
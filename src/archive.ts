@@ -0,0 +1,61 @@
+/**
+ * Mod archives
+ * Reads the mod files out of a zip archive, the way mods are distributed
+ */
+
+import JSZip from 'jszip';
+import type { ValidationMessage } from './types.js';
+
+export interface ArchiveEntry {
+  path: string; // Path within the archive, with / separators
+  content: string;
+}
+
+/**
+ * Read the .txt files in a zip archive, including ones in nested folders
+ *
+ * @param archivePath - Path of the archive, for messages about the archive itself
+ * @returns The mod files, and messages about problems with the archive (e.g., entries that differ only by case)
+ * @throws Error if the data isn't a readable zip archive
+ */
+export async function readArchive(
+  data: Uint8Array,
+  archivePath: string
+): Promise<{ entries: ArchiveEntry[]; messages: ValidationMessage[] }> {
+  const zip = await JSZip.loadAsync(data);
+
+  const files: JSZip.JSZipObject[] = [];
+  zip.forEach((_relativePath, file) => {
+    if (!file.dir) {
+      files.push(file);
+    }
+  });
+  files.sort((a, b) => a.name.localeCompare(b.name));
+
+  // The game may run on case-insensitive file systems, where entries that differ only by case overwrite each other
+  const messages: ValidationMessage[] = [];
+  const pathsByLowerCase = new Map<string, string>();
+  for (const file of files) {
+    const lowerCase = file.name.toLowerCase();
+    const other = pathsByLowerCase.get(lowerCase);
+    if (other === undefined) {
+      pathsByLowerCase.set(lowerCase, file.name);
+      continue;
+    }
+    messages.push({
+      ruleId: 'archive-path-conflict',
+      severity: 'warning',
+      message: `Archive entries '${other}' and '${file.name}' differ only by case`,
+      filePath: archivePath,
+      line: 0,
+      context: 'Only one of them will be kept when the archive is extracted on a case-insensitive file system',
+    });
+  }
+
+  const entries = await Promise.all(
+    files
+      .filter(file => file.name.toLowerCase().endsWith('.txt'))
+      .map(async file => ({ path: file.name, content: await file.async('string') }))
+  );
+  return { entries, messages };
+}
@@ -0,0 +1,141 @@
+/**
+ * Baseline of known validation messages
+ *
+ * A baseline file records the messages a project already has, so only new ones are reported.
+ * Messages are fingerprinted by file, rule, message text and the object they're in, not by line,
+ * so edits elsewhere in a file don't make known messages look new.
+ */
+
+import type { ParsedObject, ValidationMessage } from './types.js';
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineFingerprint {
+  file: string; // Relative to the baseline file's directory, with / separators
+  ruleId: string;
+  message: string;
+  object: string | null; // "Type:ID" of the object the message is in, or just "Type" for objects without an ID
+}
+
+export interface BaselineEntry extends BaselineFingerprint {
+  count: number; // Identical messages are recorded once, with how many there are
+}
+
+export interface Baseline {
+  version: number;
+  entries: BaselineEntry[];
+}
+
+function fingerprintKey(fingerprint: BaselineFingerprint): string {
+  return JSON.stringify([fingerprint.file, fingerprint.ruleId, fingerprint.message, fingerprint.object]);
+}
+
+/**
+ * Fingerprint a message
+ *
+ * @param objects - The parsed objects of the message's file
+ * @param file - The message's file path, relative to the baseline file's directory
+ */
+export function getFingerprint(msg: ValidationMessage, objects: ParsedObject[], file: string): BaselineFingerprint {
+  const obj = objects.find(o => msg.line >= o.startLine && msg.line <= o.endLine);
+  const id = obj?.properties.get('ID')?.value.trim();
+  return {
+    file,
+    ruleId: msg.ruleId,
+    message: msg.message,
+    object: obj ? (id ? `${obj.type}:${id}` : obj.type) : null,
+  };
+}
+
+/**
+ * Build a baseline from the fingerprints of every current message
+ */
+export function createBaseline(fingerprints: BaselineFingerprint[]): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+  for (const fingerprint of fingerprints) {
+    const key = fingerprintKey(fingerprint);
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      entries.set(key, { ...fingerprint, count: 1 });
+    }
+  }
+
+  // Sorted so that rewriting the baseline gives small diffs
+  const sorted = Array.from(entries.values()).sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      (a.object ?? '').localeCompare(b.object ?? '') ||
+      a.ruleId.localeCompare(b.ruleId) ||
+      a.message.localeCompare(b.message)
+  );
+  return { version: BASELINE_VERSION, entries: sorted };
+}
+
+/**
+ * Parse and check the contents of a baseline file
+ *
+ * @throws Error if the baseline is invalid
+ */
+export function parseBaseline(text: string): Baseline {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON: ${errorMessage}`);
+  }
+
+  const baseline = json as Partial<Baseline> | null;
+  if (typeof baseline !== 'object' || baseline === null || baseline.version !== BASELINE_VERSION) {
+    throw new Error(`Not a version ${BASELINE_VERSION} baseline file`);
+  }
+  const isEntry = (entry: Partial<BaselineEntry> | null) =>
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.file === 'string' &&
+    typeof entry.ruleId === 'string' &&
+    typeof entry.message === 'string' &&
+    (typeof entry.object === 'string' || entry.object === null) &&
+    typeof entry.count === 'number';
+  if (!Array.isArray(baseline.entries) || !baseline.entries.every(isEntry)) {
+    throw new Error('Baseline entries must each have a file, ruleId, message, object and count');
+  }
+  return { version: baseline.version, entries: baseline.entries };
+}
+
+/**
+ * Matches messages against a baseline
+ * Each baseline entry matches as many messages as its count, so new copies of a known message are still reported
+ */
+export class BaselineMatcher {
+  private remaining = new Map<string, number>();
+
+  constructor(baseline: Baseline) {
+    for (const entry of baseline.entries) {
+      const key = fingerprintKey(entry);
+      this.remaining.set(key, (this.remaining.get(key) ?? 0) + entry.count);
+    }
+  }
+
+  /**
+   * Check whether a message is in the baseline, using up one of its entry's count if so
+   */
+  matches(fingerprint: BaselineFingerprint): boolean {
+    const key = fingerprintKey(fingerprint);
+    const remaining = this.remaining.get(key) ?? 0;
+    if (remaining === 0) {
+      return false;
+    }
+    this.remaining.set(key, remaining - 1);
+    return true;
+  }
+
+  /**
+   * Count the baselined messages that weren't matched, i.e., that have been fixed since the baseline was written
+   */
+  getUnmatchedCount(): number {
+    return Array.from(this.remaining.values()).reduce((sum, count) => sum + count, 0);
+  }
+}
@@ -5,21 +5,73 @@
  */
 
 import { Command } from 'commander';
+import { createTwoFilesPatch } from 'diff';
 import { ModValidator } from './validator.js';
-import { ValidationMessage, ValidationResult, ValidationSeverity, VALIDATION_SEVERITIES, SEVERITY_ORDER } from './types.js';
+import {
+  Correction,
+  ValidationMessage,
+  ValidationResult,
+  ValidationSeverity,
+  VALIDATION_SEVERITIES,
+  SEVERITY_ORDER,
+} from './types.js';
+import { applyCorrections } from './position-utils.js';
+import { toSarifLog } from './sarif.js';
+import { readArchive } from './archive.js';
+import { toJUnitXml, type JUnitFile } from './junit.js';
+import { CONFIG_FILE_NAME, parseConfig } from './config.js';
+import { AUTO_FIXABLE_RULE_IDS } from './rules.js';
+import {
+  BaselineMatcher,
+  createBaseline,
+  getFingerprint,
+  parseBaseline,
+  type BaselineFingerprint,
+} from './baseline.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
+const VERSION = '1.0.0';
+
+const OUTPUT_FORMATS = ['gcc', 'json', 'sarif', 'junit'] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
 interface CLIOptions {
   recursive?: boolean;
-  format?: 'gcc' | 'json';
+  format?: OutputFormat;
   errorLevel?: ValidationSeverity;
+  fix?: boolean;
+  fixDryRun?: boolean;
+  referenceUrl?: string;
+  config?: string;
+  baseline?: string;
+  writeBaseline?: string;
+  watch?: boolean;
 }
 
+/**
+ * ValidationResult array that holds messages of each severity
+ */
+const RESULT_KEYS: Record<ValidationSeverity, keyof ValidationResult> = {
+  error: 'errors',
+  warning: 'warnings',
+  hint: 'hints',
+  info: 'info',
+};
+
+/**
+ * How long to wait for more file changes before revalidating, in watch mode
+ */
+const WATCH_DEBOUNCE_MS = 100;
+
 interface FileResult {
   filePath: string;
+  archivePath?: string; // Set for files read from an archive, which can't be written back
+  content?: string;
   result?: ValidationResult;
   error?: string;
+  fixesApplied?: number;
+  diff?: string; // Unified diff of the fixes (dry run only)
 }
 
 class ModValidatorCLI {
@@ -31,34 +83,292 @@ class ModValidatorCLI {
   private totalHints = 0;
   private totalInfo = 0;
   private printedMessages = 0;
+  private filesFixed = 0;
+  private totalFixes = 0;
+  private skippedFixes = 0;
+  private fixMode: 'fix' | 'dry-run' | null = null;
+  private baselinedMessages: number | null = null; // Messages hidden by the baseline, when one is used
+  private fixedBaselineMessages = 0;
   private fileResults: FileResult[] = [];
 
   /**
    * Process a single file
    */
   private processFile(filePath: string): FileResult {
-    this.filesProcessed++;
-
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
       const result = this.validator.validate(content, filePath);
+      return { filePath, content, result };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { filePath, error: errorMessage };
+    }
+  }
 
-      if (result.errors.length > 0) {
-        this.filesWithErrors++;
+  /**
+   * Validate the mod files in a zip archive, reporting them by their paths within the archive
+   * Problems with the archive itself are reported as messages about the archive
+   *
+   * @param validatedPaths - Paths already validated, which archive entries must not reuse
+   */
+  private async processArchive(archivePath: string, validatedPaths: Set<string>): Promise<FileResult[]> {
+    let archive: Awaited<ReturnType<typeof readArchive>>;
+    try {
+      archive = await readArchive(fs.readFileSync(archivePath), archivePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return [{ filePath: archivePath, error: `Failed to read archive: ${errorMessage}` }];
+    }
+
+    const archiveMessages = [...archive.messages];
+    const fileResults: FileResult[] = [];
+    for (const entry of archive.entries) {
+      if (validatedPaths.has(entry.path)) {
+        archiveMessages.push({
+          ruleId: 'archive-path-conflict',
+          severity: 'warning',
+          message: `Archive entry '${entry.path}' has the same path as another validated file, and was skipped`,
+          filePath: archivePath,
+          line: 0,
+        });
+        continue;
       }
 
-      this.totalErrors += result.errors.length;
-      this.totalWarnings += result.warnings.length;
-      this.totalHints += result.hints.length;
-      this.totalInfo += result.info.length;
+      validatedPaths.add(entry.path);
+      const result = this.validator.validate(entry.content, entry.path);
+      fileResults.push({ filePath: entry.path, archivePath, content: entry.content, result });
+    }
 
-      return { filePath, result };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return { filePath, error: errorMessage };
+    const result: ValidationResult = { errors: [], warnings: [], hints: [], info: [] };
+    for (const msg of this.validator.applyConfig(archiveMessages)) {
+      result[RESULT_KEYS[msg.severity]].push(msg);
+    }
+    if (VALIDATION_SEVERITIES.some((severity) => result[RESULT_KEYS[severity]].length > 0)) {
+      fileResults.unshift({ filePath: archivePath, result });
+    }
+    return fileResults;
+  }
+
+  /**
+   * Add cross-file validation messages (e.g., duplicate IDs across files) to the results of the files they're about
+   * Must run after all files have been processed, since it checks every file the validator has seen
+   */
+  private addCrossFileMessages(fileResults: FileResult[]): void {
+    const resultsByPath = new Map<string, ValidationResult>();
+    for (const fileResult of fileResults) {
+      if (fileResult.result) {
+        resultsByPath.set(fileResult.filePath, fileResult.result);
+      }
+    }
+
+    for (const msg of this.validator.getCrossFileValidationMessages()) {
+      resultsByPath.get(msg.filePath)?.[RESULT_KEYS[msg.severity]].push(msg);
+    }
+  }
+
+  /**
+   * Count a file's messages towards the summary
+   */
+  private countResult(result: ValidationResult): void {
+    if (result.errors.length > 0) {
+      this.filesWithErrors++;
+    }
+
+    this.totalErrors += result.errors.length;
+    this.totalWarnings += result.warnings.length;
+    this.totalHints += result.hints.length;
+    this.totalInfo += result.info.length;
+  }
+
+  /**
+   * Get the corrections of a message that can be applied without a choice being made:
+   * the action for suggestionIsAction messages, or the only candidate
+   * Only rules with deterministic fixes are applied, never typo guesses or navigation-only corrections
+   */
+  private getFixCorrections(msg: ValidationMessage): Correction[] {
+    const corrections = msg.corrections ?? [];
+    if (corrections.length === 0 || msg.correctionIcon === '🎯' || !AUTO_FIXABLE_RULE_IDS.has(msg.ruleId)) {
+      return [];
+    }
+    if (msg.suggestionIsAction) {
+      return corrections.slice(0, 1);
+    }
+    return corrections.length === 1 ? corrections : [];
+  }
+
+  /**
+   * Split corrections into a set that can be applied together and the ones that overlap it
+   * Identical corrections (e.g., the same fix from two messages) are applied once
+   */
+  private resolveOverlaps(corrections: Correction[]): { applied: Correction[]; skipped: Correction[] } {
+    const comparePositions = (lineA: number, columnA: number, lineB: number, columnB: number) =>
+      lineA - lineB || columnA - columnB;
+
+    const unique = new Map<string, Correction>();
+    for (const c of corrections) {
+      unique.set(`${c.startLine}:${c.startColumn}:${c.endLine}:${c.endColumn}:${c.replacementText}`, c);
+    }
+    const sorted = Array.from(unique.values()).sort(
+      (a, b) =>
+        comparePositions(a.startLine, a.startColumn, b.startLine, b.startColumn) ||
+        comparePositions(a.endLine, a.endColumn, b.endLine, b.endColumn)
+    );
+
+    const applied: Correction[] = [];
+    const skipped: Correction[] = [];
+    for (const correction of sorted) {
+      const previous = applied[applied.length - 1];
+      // Edits must not overlap, and two insertions at the same position would have no defined order
+      const overlaps =
+        !!previous &&
+        (comparePositions(correction.startLine, correction.startColumn, previous.endLine, previous.endColumn) < 0 ||
+          (correction.startLine === previous.startLine && correction.startColumn === previous.startColumn));
+      if (overlaps) {
+        skipped.push(correction);
+      } else {
+        applied.push(correction);
+      }
+    }
+
+    return { applied, skipped };
+  }
+
+  /**
+   * Apply unambiguous corrections from the displayed messages, then re-validate the fixed content
+   * In a dry run, files are left untouched and a unified diff of the fixes is recorded instead
+   */
+  private applyFixes(fileResults: FileResult[], minLevel: ValidationSeverity, dryRun: boolean): void {
+    // Corrections can edit other files than the message's own (e.g., cross-file references)
+    const correctionsByFile = new Map<string, Correction[]>();
+    for (const fileResult of fileResults) {
+      if (!fileResult.result) continue;
+
+      const { result } = fileResult;
+      const allMessages = [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+      for (const msg of this.filterMessages(allMessages, minLevel)) {
+        for (const correction of this.getFixCorrections(msg)) {
+          const fileCorrections = correctionsByFile.get(correction.filePath) ?? [];
+          fileCorrections.push(correction);
+          correctionsByFile.set(correction.filePath, fileCorrections);
+        }
+      }
+    }
+
+    for (const fileResult of fileResults) {
+      const corrections = correctionsByFile.get(fileResult.filePath);
+      if (!corrections || fileResult.content === undefined) continue;
+      // Files in archives can't be written back, but a dry run can still show their fixes
+      if (fileResult.archivePath && !dryRun) continue;
+
+      const { applied, skipped } = this.resolveOverlaps(corrections);
+      const fixed = applyCorrections(fileResult.content, applied);
+      this.skippedFixes += skipped.length;
+      if (fixed === fileResult.content) continue;
+
+      if (dryRun) {
+        fileResult.diff = createTwoFilesPatch(fileResult.filePath, fileResult.filePath, fileResult.content, fixed);
+      } else {
+        try {
+          fs.writeFileSync(fileResult.filePath, fixed, 'utf-8');
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          fileResult.error = `Failed to write fixes: ${errorMessage}`;
+          continue;
+        }
+      }
+
+      fileResult.content = fixed;
+      fileResult.fixesApplied = applied.length;
+      this.filesFixed++;
+      this.totalFixes += applied.length;
+    }
+
+    // Re-validate everything, since fixes in one file can resolve cross-file messages in another
+    this.validator.clearCache();
+    for (const fileResult of fileResults) {
+      if (fileResult.content !== undefined && !fileResult.error) {
+        fileResult.result = this.validator.validate(fileResult.content, fileResult.filePath);
+      }
+    }
+    this.addCrossFileMessages(fileResults);
+  }
+
+  /**
+   * Fingerprint a message for the baseline, with its file path relative to the baseline file's directory
+   */
+  private getFingerprint(msg: ValidationMessage, baselinePath: string): BaselineFingerprint {
+    const baselineDir = path.dirname(path.resolve(baselinePath));
+    const file = path.relative(baselineDir, path.resolve(msg.filePath)).split(path.sep).join('/');
+    return getFingerprint(msg, this.validator.getParsedObjectsCache().get(msg.filePath) ?? [], file);
+  }
+
+  /**
+   * Record every current message in a baseline file
+   */
+  private writeBaseline(fileResults: FileResult[], baselinePath: string): void {
+    const fingerprints: BaselineFingerprint[] = [];
+    for (const { result } of fileResults) {
+      if (!result) continue;
+      const allMessages = [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+      fingerprints.push(...allMessages.map((msg) => this.getFingerprint(msg, baselinePath)));
+    }
+
+    fs.writeFileSync(baselinePath, JSON.stringify(createBaseline(fingerprints), null, 2) + '\n', 'utf-8');
+    console.error(`Wrote ${fingerprints.length} message(s) to baseline ${baselinePath}`);
+  }
+
+  /**
+   * Remove the messages that are in a baseline file from the results, so only new messages are reported
+   */
+  private applyBaseline(fileResults: FileResult[], baselinePath: string): void {
+    const matcher = new BaselineMatcher(parseBaseline(fs.readFileSync(baselinePath, 'utf-8')));
+    this.baselinedMessages = 0;
+
+    for (const { result } of fileResults) {
+      if (!result) continue;
+      for (const key of Object.values(RESULT_KEYS)) {
+        const messages = result[key];
+        result[key] = messages.filter((msg) => !matcher.matches(this.getFingerprint(msg, baselinePath)));
+        this.baselinedMessages += messages.length - result[key].length;
+      }
+    }
+    this.fixedBaselineMessages = matcher.getUnmatchedCount();
+  }
+
+  /**
+   * Find the config file to use: the given one, or the nearest one in the working directory or its parents
+   */
+  private findConfigFile(configPath: string | undefined): string | null {
+    if (configPath) {
+      return configPath;
+    }
+
+    let dir = process.cwd();
+    for (;;) {
+      const candidate = path.join(dir, CONFIG_FILE_NAME);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
     }
   }
 
+  /**
+   * Load the project config, so the validator applies its rule settings
+   * Override globs match file paths relative to the config file's directory
+   */
+  private loadConfig(configPath: string): void {
+    const config = parseConfig(fs.readFileSync(configPath, 'utf-8'));
+    const configDir = path.dirname(path.resolve(configPath));
+    this.validator.setConfig(config, filePath =>
+      path.relative(configDir, path.resolve(filePath)).split(path.sep).join('/')
+    );
+  }
+
   /**
    * Find files in a directory
    */
@@ -88,16 +398,19 @@ class ModValidatorCLI {
   }
 
   /**
-   * Collect all files to process from arguments
+   * Collect all files to process from arguments, and the zip archives to read mod files from
    */
-  private collectFiles(paths: string[], recursive: boolean): string[] {
+  private collectFiles(paths: string[], recursive: boolean): { files: string[]; archives: string[] } {
     const files: string[] = [];
+    const archives: string[] = [];
 
     for (const inputPath of paths) {
       try {
         const stats = fs.statSync(inputPath);
 
-        if (stats.isFile()) {
+        if (stats.isFile() && inputPath.toLowerCase().endsWith('.zip')) {
+          archives.push(inputPath);
+        } else if (stats.isFile()) {
           // Accept any file if explicitly specified
           files.push(inputPath);
         } else if (stats.isDirectory()) {
@@ -109,7 +422,7 @@ class ModValidatorCLI {
       }
     }
 
-    return files;
+    return { files, archives };
   }
 
   /**
@@ -124,7 +437,9 @@ class ModValidatorCLI {
    * Format a validation message in GCC style
    */
   private formatGCCMessage(filePath: string, msg: ValidationMessage): string {
-    const location = msg.line ? `${filePath}:${msg.line}` : filePath;
+    // GCC columns are 1-indexed
+    const column = msg.range ? `:${msg.range.startColumn + 1}` : '';
+    const location = msg.line ? `${filePath}:${msg.line}${column}` : filePath;
     let output = `${location}: ${msg.severity}: ${msg.message}`;
 
     // if (msg.context) {
@@ -137,6 +452,14 @@ class ModValidatorCLI {
       output += ` (${suggestionPrefix}: ${suggestions}?)`;
     }
 
+    // Rule ID, like GCC's [-Wflag]
+    output += ` [${msg.ruleId}]`;
+
+    // Related locations follow as GCC-style notes
+    for (const related of msg.relatedLocations ?? []) {
+      output += `\n${related.filePath}:${related.startLine}:${related.startColumn + 1}: note: ${related.message}`;
+    }
+
     return output;
   }
 
@@ -144,6 +467,12 @@ class ModValidatorCLI {
    * Output results in GCC format
    */
   private outputGCC(fileResults: FileResult[], minLevel: ValidationSeverity): void {
+    for (const fileResult of fileResults) {
+      if (fileResult.diff) {
+        process.stdout.write(fileResult.diff);
+      }
+    }
+
     for (const fileResult of fileResults) {
       if (fileResult.error) {
         console.error(`${fileResult.filePath}: error: ${fileResult.error}`);
@@ -172,6 +501,21 @@ class ModValidatorCLI {
     console.log(
       `${this.totalErrors} error(s), ${this.totalWarnings} warning(s), ${this.totalHints} hint(s), ${this.totalInfo} info message(s)`
     );
+    if (this.fixMode) {
+      const verb = this.fixMode === 'dry-run' ? 'would be applied' : 'applied';
+      console.log(`${this.totalFixes} fix(es) ${verb} to ${this.filesFixed} file(s)`);
+      if (this.skippedFixes > 0) {
+        console.log(`${this.skippedFixes} overlapping fix(es) skipped, run again to apply them`);
+      }
+    }
+    if (this.baselinedMessages !== null) {
+      console.log(`${this.baselinedMessages} message(s) hidden by the baseline`);
+      if (this.fixedBaselineMessages > 0) {
+        console.log(
+          `${this.fixedBaselineMessages} baselined message(s) no longer occur, run with --write-baseline to update it`
+        );
+      }
+    }
   }
 
   /**
@@ -181,11 +525,14 @@ class ModValidatorCLI {
     return {
       file: filePath,
       line: msg.line,
+      range: msg.range,
+      ruleId: msg.ruleId,
       severity: msg.severity,
       message: msg.message,
       context: msg.context,
       suggestion: msg.suggestion,
       corrections: msg.corrections,
+      relatedLocations: msg.relatedLocations,
     };
   }
 
@@ -201,6 +548,15 @@ class ModValidatorCLI {
         totalWarnings: this.totalWarnings,
         totalHints: this.totalHints,
         totalInfo: this.totalInfo,
+        ...(this.fixMode && {
+          filesFixed: this.filesFixed,
+          totalFixes: this.totalFixes,
+          skippedFixes: this.skippedFixes,
+        }),
+        ...(this.baselinedMessages !== null && {
+          baselinedMessages: this.baselinedMessages,
+          fixedBaselineMessages: this.fixedBaselineMessages,
+        }),
       },
       files: fileResults.map((fileResult) => {
         if (fileResult.error) {
@@ -229,6 +585,8 @@ class ModValidatorCLI {
           warningCount: result.warnings.length,
           hintCount: result.hints.length,
           infoCount: result.info.length,
+          fixesApplied: fileResult.fixesApplied,
+          diff: fileResult.diff,
           messages: filteredMessages.map((msg) => this.messageToJSON(fileResult.filePath, msg)),
         };
       }),
@@ -237,24 +595,218 @@ class ModValidatorCLI {
     console.log(JSON.stringify(output, null, 2));
   }
 
+  /**
+   * Output results in SARIF 2.1.0 format
+   */
+  private outputSARIF(fileResults: FileResult[], minLevel: ValidationSeverity, referenceUrl?: string): void {
+    const messages: ValidationMessage[] = [];
+    const fileErrors: { filePath: string; error: string }[] = [];
+
+    for (const fileResult of fileResults) {
+      if (fileResult.error) {
+        fileErrors.push({ filePath: fileResult.filePath, error: fileResult.error });
+        this.printedMessages++;
+        continue;
+      }
+
+      if (!fileResult.result) {
+        continue;
+      }
+
+      const { result } = fileResult;
+      const allMessages = [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+      messages.push(...this.filterMessages(allMessages, minLevel));
+    }
+    this.printedMessages += messages.length;
+
+    const log = toSarifLog(messages, fileErrors, {
+      toolVersion: VERSION,
+      baseDir: process.cwd(),
+      referenceBaseUrl: referenceUrl,
+    });
+    console.log(JSON.stringify(log, null, 2));
+  }
+
+  /**
+   * Output results in JUnit XML format
+   */
+  private outputJUnit(fileResults: FileResult[], minLevel: ValidationSeverity): void {
+    const parsedObjects = this.validator.getParsedObjectsCache();
+    const files: JUnitFile[] = fileResults.map((fileResult) => {
+      if (fileResult.error) {
+        this.printedMessages++;
+        return { filePath: fileResult.filePath, objects: [], messages: [], error: fileResult.error };
+      }
+
+      const { result } = fileResult;
+      const allMessages = result ? [...result.errors, ...result.warnings, ...result.hints, ...result.info] : [];
+      const messages = this.filterMessages(allMessages, minLevel);
+      this.printedMessages += messages.length;
+      return { filePath: fileResult.filePath, objects: parsedObjects.get(fileResult.filePath) ?? [], messages };
+    });
+
+    console.log(toJUnitXml(files));
+  }
+
+  /**
+   * Count the results towards the summary, then output them in the chosen format
+   */
+  private report(format: OutputFormat, errorLevel: ValidationSeverity, referenceUrl: string | undefined): void {
+    for (const fileResult of this.fileResults) {
+      if (fileResult.result) {
+        this.countResult(fileResult.result);
+      }
+    }
+
+    if (format === 'json') {
+      this.outputJSON(this.fileResults, errorLevel);
+    } else if (format === 'sarif') {
+      this.outputSARIF(this.fileResults, errorLevel, referenceUrl);
+    } else if (format === 'junit') {
+      this.outputJUnit(this.fileResults, errorLevel);
+    } else {
+      this.outputGCC(this.fileResults, errorLevel);
+    }
+  }
+
+  /**
+   * Reset the summary counts, before reporting again in watch mode
+   */
+  private resetCounts(): void {
+    this.filesWithErrors = 0;
+    this.totalErrors = 0;
+    this.totalWarnings = 0;
+    this.totalHints = 0;
+    this.totalInfo = 0;
+    this.printedMessages = 0;
+    this.baselinedMessages = null;
+    this.fixedBaselineMessages = 0;
+  }
+
+  /**
+   * Keep the validator alive and watch the given paths: revalidate only the files that change,
+   * recompute cross-file messages and reprint the report, until interrupted
+   */
+  private watch(
+    paths: string[],
+    files: string[],
+    format: OutputFormat,
+    errorLevel: ValidationSeverity,
+    options: CLIOptions
+  ): void {
+    // Each file's own results, before cross-file messages are added and baselined messages are removed
+    const ownResults = new Map(this.fileResults.map((fileResult) => [fileResult.filePath, fileResult]));
+    const trackedFiles = new Set(files);
+
+    const refresh = () => {
+      this.fileResults = Array.from(ownResults.values(), (fileResult) => {
+        const { result } = fileResult;
+        return result
+          ? {
+              ...fileResult,
+              result: {
+                errors: [...result.errors],
+                warnings: [...result.warnings],
+                hints: [...result.hints],
+                info: [...result.info],
+              },
+            }
+          : fileResult;
+      });
+      this.addCrossFileMessages(this.fileResults);
+
+      this.resetCounts();
+      this.filesProcessed = trackedFiles.size;
+      let baselineError: string | null = null;
+      if (options.baseline) {
+        try {
+          this.applyBaseline(this.fileResults, options.baseline);
+        } catch (error) {
+          baselineError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      console.clear();
+      if (baselineError) {
+        console.error(`Error: Failed to load baseline ${options.baseline}: ${baselineError}`);
+      }
+      this.report(format, errorLevel, options.referenceUrl);
+      console.error(`\n[${new Date().toLocaleTimeString()}] Watching for changes... (press Ctrl+C to stop)`);
+    };
+
+    let changedFiles = new Set<string>();
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+    const onChange = (filePath: string) => {
+      changedFiles.add(filePath);
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        const changed = changedFiles;
+        changedFiles = new Set();
+
+        for (const changedPath of changed) {
+          this.validator.removeFromCache(changedPath);
+          if (fs.existsSync(changedPath)) {
+            trackedFiles.add(changedPath);
+            ownResults.set(changedPath, this.processFile(changedPath));
+          } else {
+            trackedFiles.delete(changedPath);
+            ownResults.delete(changedPath);
+          }
+        }
+        refresh();
+      }, WATCH_DEBOUNCE_MS);
+    };
+
+    for (const inputPath of paths) {
+      try {
+        if (fs.statSync(inputPath).isDirectory()) {
+          fs.watch(inputPath, { recursive: options.recursive ?? false }, (_event, fileName) => {
+            if (fileName?.endsWith('.txt')) {
+              onChange(path.join(inputPath, fileName));
+            }
+          });
+        } else {
+          // Watch the directory, since editors often save by replacing the file
+          const fileName = path.basename(inputPath);
+          fs.watch(path.dirname(inputPath), (_event, changedName) => {
+            if (changedName === fileName) {
+              onChange(inputPath);
+            }
+          });
+        }
+      } catch {
+        // Paths that can't be read were already reported by collectFiles
+      }
+    }
+
+    refresh();
+  }
+
   /**
    * Run the CLI
    */
-  run(argv: string[]): void {
+  async run(argv: string[]): Promise<void> {
     const program = new Command();
 
     program
       .name('mod-validator')
       .description('Validate Horizon\'s Gate mod files')
-      .version('1.0.0')
-      .argument('<paths...>', 'file or directory paths to validate')
+      .version(VERSION)
+      .argument('<paths...>', 'file, directory or zip archive paths to validate')
       .option('-r, --recursive', 'recursively process directories', false)
-      .option('-f, --format <type>', 'output format (gcc or json)', 'gcc')
+      .option('-f, --format <type>', `output format (${OUTPUT_FORMATS.join(', ')})`, 'gcc')
       .option('-e, --error-level <level>', `minimum severity level to display (${VALIDATION_SEVERITIES.join(', ')})`, 'info')
-      .action((paths: string[], options: CLIOptions) => {
+      .option('--fix', 'apply deterministic corrections (not typo suggestions) to the files, then re-validate', false)
+      .option('--fix-dry-run', 'show the fixes --fix would apply as a unified diff, without changing files', false)
+      .option('--reference-url <url>', 'base URL of the hosted formula and task reference pages, for SARIF help links')
+      .option('-c, --config <path>', `config file (default: the nearest ${CONFIG_FILE_NAME})`)
+      .option('--baseline <path>', 'only report messages that are not in the baseline file')
+      .option('--write-baseline <path>', 'record the current messages in a baseline file, and report none of them')
+      .option('-w, --watch', 'keep running, and revalidate and reprint the report when files change', false)
+      .action(async (paths: string[], options: CLIOptions) => {
         // Validate format option
-        if (options.format && !['gcc', 'json'].includes(options.format)) {
-          console.error(`Error: Invalid format '${options.format}'. Must be 'gcc' or 'json'.`);
+        if (options.format && !OUTPUT_FORMATS.includes(options.format)) {
+          console.error(`Error: Invalid format '${options.format}'. Must be one of: ${OUTPUT_FORMATS.join(', ')}.`);
           process.exit(1);
         }
 
@@ -264,42 +816,100 @@ class ModValidatorCLI {
           process.exit(1);
         }
 
-        const format = (options.format || 'gcc') as 'gcc' | 'json';
+        const format = options.format || 'gcc';
         const recursive = options.recursive || false;
         const errorLevel = (options.errorLevel || 'info') as ValidationSeverity;
 
+        // Watch mode would see its own file writes as changes
+        if (options.watch && (options.fix || options.fixDryRun || options.writeBaseline)) {
+          console.error('Error: --watch cannot be combined with --fix, --fix-dry-run or --write-baseline.');
+          process.exit(1);
+        }
+
+        // Load the project config before validating anything
+        const configPath = this.findConfigFile(options.config);
+        if (configPath) {
+          try {
+            this.loadConfig(configPath);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error: Failed to load config ${configPath}: ${errorMessage}`);
+            process.exit(1);
+          }
+        }
+
         // Collect all files to process
-        const files = this.collectFiles(paths, recursive);
+        const { files, archives } = this.collectFiles(paths, recursive);
 
-        if (files.length === 0 && this.fileResults.length === 0) {
+        if (files.length === 0 && archives.length === 0 && this.fileResults.length === 0) {
           console.error('No files found to validate');
           process.exit(1);
         }
 
-        // Process each file
+        if (options.watch && archives.length > 0) {
+          console.error('Error: --watch cannot be used with zip archives.');
+          process.exit(1);
+        }
+
+        // Process each file, then the files in each archive
         for (const file of files) {
           this.fileResults.push(this.processFile(file));
         }
+        const validatedPaths = new Set(files);
+        for (const archive of archives) {
+          this.fileResults.push(...(await this.processArchive(archive, validatedPaths)));
+        }
+        this.filesProcessed = validatedPaths.size;
 
-        // Output results
-        if (format === 'json') {
-          this.outputJSON(this.fileResults, errorLevel);
-        } else {
-          this.outputGCC(this.fileResults, errorLevel);
+        if (options.watch) {
+          this.watch(paths, files, format, errorLevel, options);
+          return;
+        }
+
+        // Check across all files once every file is in the validator's cache
+        this.addCrossFileMessages(this.fileResults);
+
+        if (options.fix || options.fixDryRun) {
+          this.fixMode = options.fixDryRun ? 'dry-run' : 'fix';
+          this.applyFixes(this.fileResults, errorLevel, this.fixMode === 'dry-run');
         }
 
-        // Exit with error code if any messages were printed
-        process.exit(this.printedMessages > 0 ? 1 : 0);
+        // Hide known messages; a newly written baseline hides every current message
+        if (options.writeBaseline) {
+          try {
+            this.writeBaseline(this.fileResults, options.writeBaseline);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error: Failed to write baseline ${options.writeBaseline}: ${errorMessage}`);
+            process.exit(1);
+          }
+        }
+        const baselinePath = options.writeBaseline ?? options.baseline;
+        if (baselinePath) {
+          try {
+            this.applyBaseline(this.fileResults, baselinePath);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Error: Failed to load baseline ${baselinePath}: ${errorMessage}`);
+            process.exit(1);
+          }
+        }
+
+        this.report(format, errorLevel, options.referenceUrl);
+
+        // Exit with error code if any (new) messages were printed, or a dry run found something to fix
+        const pendingFixes = this.fixMode === 'dry-run' && this.totalFixes > 0;
+        process.exit(this.printedMessages > 0 || pendingFixes ? 1 : 0);
       });
 
-    program.parse(argv);
+    await program.parseAsync(argv);
   }
 }
 
 // Run CLI if this is the main module
 if (import.meta.url === `file://${process.argv[1]}`) {
   const cli = new ModValidatorCLI();
-  cli.run(process.argv);
+  void cli.run(process.argv);
 }
 
 export { ModValidatorCLI };
@@ -0,0 +1,334 @@
+/**
+ * Context-aware completion for mod text
+ *
+ * Determines what the cursor is positioned on and offers matching items:
+ * - Object type names inside [ ]
+ * - Schema fields for the current object type in a property name position
+ * - Enum members and booleans in a value position
+ * - Formula operator names inside Formula values
+ * - Task names inside task string values
+ */
+
+import type { ClassSchema, FieldSchema, ModSchema, PositionInfo, SchemaData } from './types.js';
+import { PropertyValidator } from './property-validator.js';
+import { TaskValidator, isTaskStringProperty } from './task-validator.js';
+import { getAllOperators, getArgCount, hasFormulaBody, isFunctionStyle } from './formula-metadata.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+
+export type CompletionItemKind = 'objectType' | 'property' | 'value' | 'operator' | 'task';
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+  documentation?: string;
+}
+
+/**
+ * Completion items plus the range of text they replace (the partial word before the cursor)
+ */
+export interface CompletionList {
+  items: CompletionItem[];
+  range: PositionInfo;
+}
+
+/**
+ * What the cursor is positioned on, found by scanning the text before it
+ */
+type CursorContext =
+  | { kind: 'none' }
+  | { kind: 'objectType' }
+  | { kind: 'propertyName'; objectType: string | null; assigned: Map<string, string> }
+  | { kind: 'value'; objectType: string | null; propertyName: string; value: string; assigned: Map<string, string> };
+
+type ScanState = 'between' | 'comment' | 'type' | 'name' | 'value';
+
+/**
+ * Characters that end a formula term (the colon-separated chain of an operator and its arguments)
+ */
+const FORMULA_TERM_DELIMITERS = new Set(['+', '*', '/', '(', ')', ',', ' ', '\t', '\n']);
+
+/**
+ * Check whether the text at a value position starts a new property (IDENTIFIER=) or object,
+ * which ends the current value the same way the lexer does
+ */
+function startsNewStatement(content: string, index: number): boolean {
+  const rest = content.slice(index).replace(/^[ \t]+/, '');
+  if (/^[A-Za-z0-9][\w+!]*=/.test(rest)) {
+    return true;
+  }
+  // Only a new line can start an object or a comment
+  return content[index - 1] === '\n' && (rest.startsWith('[') || rest.startsWith('--'));
+}
+
+/**
+ * Scan the text before the cursor to find what the cursor is positioned on
+ */
+function scanContext(content: string, offset: number): CursorContext {
+  let state: ScanState = 'between';
+  let objectType: string | null = null;
+  let assigned = new Map<string, string>();
+  let tokenStart = 0;
+  let propertyName = '';
+  let angleBracketDepth = 0;
+
+  for (let i = 0; i < offset; i++) {
+    const char = content[i];
+
+    switch (state) {
+      case 'comment':
+        if (char === '\n') state = 'between';
+        break;
+      case 'type':
+        if (char === ']') {
+          objectType = content.slice(tokenStart, i).trim();
+          assigned = new Map();
+          state = 'between';
+        } else if (char === '\n') {
+          state = 'between';
+        }
+        break;
+      case 'name':
+        if (char === '=') {
+          propertyName = content.slice(tokenStart, i).trim();
+          tokenStart = i + 1;
+          angleBracketDepth = 0;
+          state = 'value';
+        } else if (char === ';' || char === '\n') {
+          state = 'between';
+        }
+        break;
+      case 'value':
+        if (char === '<') {
+          angleBracketDepth++;
+        } else if (char === '>') {
+          angleBracketDepth = Math.max(0, angleBracketDepth - 1);
+        }
+        if (char === ';' || (angleBracketDepth === 0 && /\s/.test(char ?? '') && startsNewStatement(content, i + 1))) {
+          assigned.set(propertyName, content.slice(tokenStart, i));
+          state = 'between';
+        }
+        break;
+      case 'between':
+        if (char === '[') {
+          tokenStart = i + 1;
+          state = 'type';
+        } else if (char === '-' && content[i + 1] === '-') {
+          state = 'comment';
+        } else if (/[\w!]/.test(char ?? '')) {
+          tokenStart = i;
+          state = 'name';
+        }
+        break;
+    }
+  }
+
+  switch (state) {
+    case 'type':
+      return { kind: 'objectType' };
+    case 'between':
+    case 'name':
+      return { kind: 'propertyName', objectType, assigned };
+    case 'value':
+      return { kind: 'value', objectType, propertyName, value: content.slice(tokenStart, offset), assigned };
+    default:
+      return { kind: 'none' };
+  }
+}
+
+/**
+ * Check whether a word at the end of a formula is in an operator position
+ * (rather than an operator argument), e.g. "c:" → argument, "min:5:" → operator (the formula body)
+ *
+ * @param formula - The formula text before the word
+ */
+function isOperatorPosition(formula: string): boolean {
+  // Find the start of the current term
+  let termStart = formula.length;
+  while (termStart > 0) {
+    const char = formula[termStart - 1]!;
+    // A '-' right after ':' is a negative argument, not subtraction
+    const isSubtraction = char === '-' && formula[termStart - 2] !== ':';
+    if (FORMULA_TERM_DELIMITERS.has(char) || isSubtraction) break;
+    termStart--;
+  }
+
+  // Arguments of function-style operators are in parentheses: d(gswordDmg)
+  if (formula[termStart - 1] === '(') {
+    const name = formula.slice(0, termStart - 1).match(/[\w]+$/)?.[0];
+    if (name && isFunctionStyle(name)) return false;
+  }
+
+  // Walk the colon-separated chain: each operator is followed by its arguments, then its formula body (if any)
+  const segments = formula.slice(termStart).split(':').slice(0, -1);
+  let index = 0;
+  while (index < segments.length) {
+    const operator = segments[index]!;
+    const next = index + 1 + getArgCount(operator);
+    if (segments.length < next || !hasFormulaBody(operator)) {
+      return false;
+    }
+    index = next;
+  }
+  return true;
+}
+
+/**
+ * Find the schema field for a property name (including pattern fields like bodyPartN and topX+)
+ * Real fields take precedence over virtual properties
+ *
+ * @param propertyName - The property name without ! prefix or + suffixes
+ */
+export function findSchemaField(classSchema: ClassSchema, propertyName: string): FieldSchema | undefined {
+  const fields = classSchema.fields.filter(field => {
+    if (field.pattern && field.name.endsWith('N')) {
+      const base = field.name.slice(0, -1);
+      return propertyName.startsWith(base) && /^\d+$/.test(propertyName.slice(base.length));
+    }
+    return (field.pattern ? field.name.replace(/\+$/, '') : field.name) === propertyName;
+  });
+  return fields.find(field => !field.virtual) ?? fields[0];
+}
+
+export class CompletionProvider {
+  private schema: ModSchema;
+  private typeAliases: Record<string, string>;
+  private functionalAliases: Record<string, string>;
+  private propertyValidator = new PropertyValidator();
+  private taskValidator = new TaskValidator();
+
+  constructor() {
+    const data = modSchemaData as SchemaData;
+    this.schema = data.schema;
+    this.typeAliases = data.typeAliases;
+    this.functionalAliases = data.functionalAliases;
+  }
+
+  private resolveType(typeName: string): string {
+    const normalized = this.functionalAliases[typeName] || typeName;
+    return this.typeAliases[normalized] || normalized;
+  }
+
+  /**
+   * Get completion items for a cursor position
+   *
+   * @param content - The document text
+   * @param line - Cursor line (1-indexed)
+   * @param column - Cursor column (0-indexed)
+   */
+  getCompletions(content: string, line: number, column: number): CompletionList {
+    const lines = content.split('\n');
+    const lineText = lines[line - 1] ?? '';
+    const cursorColumn = Math.min(column, lineText.length);
+    const offset = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0) + cursorColumn;
+
+    // Every item replaces the partial word before the cursor
+    const word = lineText.slice(0, cursorColumn).match(/\w*$/)?.[0] ?? '';
+    const range = { startLine: line, startColumn: cursorColumn - word.length, endLine: line, endColumn: cursorColumn };
+
+    const context = scanContext(content, offset);
+    return { items: this.getItems(context), range };
+  }
+
+  private getItems(context: CursorContext): CompletionItem[] {
+    switch (context.kind) {
+      case 'objectType':
+        return this.getObjectTypeItems();
+      case 'propertyName':
+        return context.objectType ? this.getPropertyItems(context.objectType, context.assigned) : [];
+      case 'value':
+        return context.objectType ? this.getValueItems(context.objectType, context) : [];
+      default:
+        return [];
+    }
+  }
+
+  private getObjectTypeItems(): CompletionItem[] {
+    const items: CompletionItem[] = Object.entries(this.schema).map(([name, classSchema]) => ({
+      label: name,
+      kind: 'objectType',
+      detail: classSchema.category,
+    }));
+
+    for (const [alias, target] of Object.entries(this.typeAliases)) {
+      if (!this.schema[alias]) {
+        items.push({ label: alias, kind: 'objectType', detail: `Alias of ${target}` });
+      }
+    }
+
+    return items.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  private getPropertyItems(objectType: string, assigned: Map<string, string>): CompletionItem[] {
+    const classSchema = this.schema[this.resolveType(objectType)];
+    if (!classSchema) return [];
+
+    const items = new Map<string, CompletionItem>();
+    for (const field of classSchema.fields) {
+      // Numbered pattern fields (bodyPartN) have no single name to offer
+      if (field.pattern && field.name.endsWith('N')) continue;
+
+      const name = field.pattern ? field.name.replace(/\+$/, '') : field.name;
+      const isList = field.type.startsWith('List<') || field.pattern;
+      // Scalar fields that are already assigned would only be overwritten
+      if (!isList && assigned.has(name)) continue;
+
+      // Real fields take precedence over virtual properties
+      if (!items.has(name) || !field.virtual) {
+        items.set(name, { label: name, kind: 'property', detail: field.type });
+      }
+    }
+
+    return Array.from(items.values());
+  }
+
+  private getValueItems(
+    objectType: string,
+    context: { propertyName: string; value: string; assigned: Map<string, string> }
+  ): CompletionItem[] {
+    const resolvedType = this.resolveType(objectType);
+    const classSchema = this.schema[resolvedType];
+    if (!classSchema) return [];
+
+    const propertyName = context.propertyName.replace(/^!/, '').replace(/\++$/, '');
+    const value = context.value.replace(/\w*$/, '');
+
+    // Task names are only offered for the first element (before any parameters)
+    const actorValue = context.assigned.get('actorValue')?.trim();
+    if (isTaskStringProperty(resolvedType, propertyName, actorValue)) {
+      return value.includes(',') ? [] : this.getTaskItems();
+    }
+
+    const field = findSchemaField(classSchema, propertyName);
+    if (!field) return [];
+
+    if (field.type === 'Formula' || field.type === 'List<Formula>') {
+      return isOperatorPosition(value) ? this.getOperatorItems() : [];
+    }
+
+    if (field.type === 'boolean') {
+      return ['true', 'false'].map(label => ({ label, kind: 'value' }));
+    }
+
+    const enumValues = this.propertyValidator.getEnumValues(field.type, resolvedType);
+    return Object.keys(enumValues ?? {}).map(label => ({ label, kind: 'value', detail: field.type }));
+  }
+
+  private getOperatorItems(): CompletionItem[] {
+    return getAllOperators().map(op => {
+      const item: CompletionItem = { label: op.name, kind: 'operator', detail: op.category };
+      const description = op.uses[0]?.description;
+      if (description) item.documentation = description;
+      return item;
+    });
+  }
+
+  private getTaskItems(): CompletionItem[] {
+    return this.taskValidator.getTasks().map(task => {
+      const item: CompletionItem = { label: task.name, kind: 'task' };
+      const description = task.uses[0]?.description;
+      if (description) item.documentation = description;
+      return item;
+    });
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Project configuration
+ *
+ * A .modvalidator.json file turns rules off, changes their severity,
+ * and overrides those settings for files matching glob patterns:
+ *
+ *   {
+ *     "rules": { "unknown-property": "off", "repeated-property": "error" },
+ *     "overrides": [{ "files": ["legacy/**"], "rules": { "unknown-reference": "off" } }]
+ *   }
+ *
+ * Rule settings are "off", "on" (the rule's own severity) or a severity to report the rule's messages at.
+ * Later overrides take precedence over earlier ones, and all overrides take precedence over "rules".
+ */
+
+import type { ValidationMessage, ValidationSeverity } from './types.js';
+import { VALIDATION_SEVERITIES } from './types.js';
+import { isRuleId, type RuleId } from './rules.js';
+
+export const CONFIG_FILE_NAME = '.modvalidator.json';
+
+export type RuleSetting = 'off' | 'on' | ValidationSeverity;
+
+export type RuleSettings = Partial<Record<RuleId, RuleSetting>>;
+
+export interface ConfigOverride {
+  files: string[]; // Glob patterns, relative to the config file's directory
+  rules: RuleSettings;
+}
+
+export interface ModValidatorConfig {
+  rules: RuleSettings;
+  overrides: ConfigOverride[];
+}
+
+const RULE_SETTINGS: readonly string[] = ['off', 'on', ...VALIDATION_SEVERITIES];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a "rules" object, collecting problems with the given path prefix
+ */
+function parseRuleSettings(value: unknown, where: string, problems: string[]): RuleSettings {
+  const settings: RuleSettings = {};
+  if (value === undefined) {
+    return settings;
+  }
+  if (!isObject(value)) {
+    problems.push(`${where} must be an object`);
+    return settings;
+  }
+
+  for (const [ruleId, setting] of Object.entries(value)) {
+    if (!isRuleId(ruleId)) {
+      problems.push(`${where}: unknown rule '${ruleId}'`);
+    } else if (typeof setting !== 'string' || !RULE_SETTINGS.includes(setting)) {
+      problems.push(`${where}.${ruleId} must be one of: ${RULE_SETTINGS.join(', ')}`);
+    } else {
+      settings[ruleId] = setting as RuleSetting;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Parse and check the contents of a config file
+ *
+ * @throws Error listing every problem found, if the config is invalid
+ */
+export function parseConfig(text: string): ModValidatorConfig {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${CONFIG_FILE_NAME}: ${errorMessage}`);
+  }
+
+  if (!isObject(json)) {
+    throw new Error(`${CONFIG_FILE_NAME} must contain an object`);
+  }
+
+  const problems: string[] = [];
+  const rules = parseRuleSettings(json['rules'], 'rules', problems);
+
+  const overrides: ConfigOverride[] = [];
+  const rawOverrides = json['overrides'] ?? [];
+  if (!Array.isArray(rawOverrides)) {
+    problems.push('overrides must be an array');
+  } else {
+    rawOverrides.forEach((override: unknown, i) => {
+      const where = `overrides[${i}]`;
+      if (!isObject(override)) {
+        problems.push(`${where} must be an object`);
+        return;
+      }
+
+      const files = typeof override['files'] === 'string' ? [override['files']] : override['files'];
+      if (!Array.isArray(files) || files.length === 0 || !files.every(file => typeof file === 'string')) {
+        problems.push(`${where}.files must be a glob pattern or a non-empty array of them`);
+        return;
+      }
+      overrides.push({ files, rules: parseRuleSettings(override['rules'], `${where}.rules`, problems) });
+    });
+  }
+
+  for (const key of Object.keys(json)) {
+    if (key !== 'rules' && key !== 'overrides') {
+      problems.push(`unknown setting '${key}'`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${CONFIG_FILE_NAME}:\n  ${problems.join('\n  ')}`);
+  }
+  return { rules, overrides };
+}
+
+/**
+ * Convert a glob pattern to a regular expression over /-separated paths
+ * Supports ** (any number of directories), * and ? (within a path segment) and {a,b} alternatives
+ * Patterns without a / match file names in any directory
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`;
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories; a trailing "**" matches everything below
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the rule settings that apply to a file
+ *
+ * @param configPath - The file's path relative to the config file's directory, with / separators
+ */
+export function getRuleSettings(config: ModValidatorConfig, configPath: string): RuleSettings {
+  const settings: RuleSettings = { ...config.rules };
+  for (const override of config.overrides) {
+    if (override.files.some(glob => globToRegExp(glob).test(configPath))) {
+      Object.assign(settings, override.rules);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Apply a config's rule settings to messages: drop messages of rules that are off, and change severities
+ *
+ * @param toConfigPath - Converts a message's file path to a path relative to the config file's directory
+ */
+export function applyConfig(
+  messages: ValidationMessage[],
+  config: ModValidatorConfig,
+  toConfigPath: (filePath: string) => string
+): ValidationMessage[] {
+  const settingsByFile = new Map<string, RuleSettings>();
+  const getSettings = (filePath: string) => {
+    let settings = settingsByFile.get(filePath);
+    if (!settings) {
+      settings = getRuleSettings(config, toConfigPath(filePath));
+      settingsByFile.set(filePath, settings);
+    }
+    return settings;
+  };
+
+  const result: ValidationMessage[] = [];
+  for (const msg of messages) {
+    const setting = getSettings(msg.filePath)[msg.ruleId];
+    if (setting === 'off') continue;
+    result.push(setting === undefined || setting === 'on' ? msg : { ...msg, severity: setting });
+  }
+  return result;
+}
@@ -59,6 +59,23 @@ if (tags.size === 0) {
   throw new Error('Failed to load dynamic text metadata from dynamic-text.json');
 }
 
+/**
+ * Get tag metadata by name or alias
+ */
+export function getDynamicTextTag(name: string): DynamicTextTag | undefined {
+  // Check for undefined, not truthiness, since "" is a valid tag name
+  const canonicalName = tagAliasMap.get(name);
+  return canonicalName !== undefined ? tags.get(canonicalName) : undefined;
+}
+
+/**
+ * Get command metadata (for the <cmd=> tag) by name or alias
+ */
+export function getDynamicTextCommand(name: string): DynamicTextCommand | undefined {
+  const canonicalName = commandAliasMap.get(name);
+  return canonicalName ? commands.get(canonicalName) : undefined;
+}
+
 /**
  * Check if a string looks like a formula (contains arithmetic operators or colon-prefixed operators)
  */
@@ -169,10 +186,12 @@ function validateUnknownTag(tag: ParsedDynamicTextTag, propInfo: PropertyInfo):
 
     return [
       {
+        ruleId: 'unknown-text-tag',
         severity: 'error',
         message: `Unknown dynamic text tag: '${tag.tagName}'`,
         filePath: propInfo.filePath,
         line: absoluteTagNamePos.startLine,
+        range: absoluteTagNamePos,
         corrections,
       },
     ];
@@ -180,10 +199,12 @@ function validateUnknownTag(tag: ParsedDynamicTextTag, propInfo: PropertyInfo):
 
   return [
     {
+      ruleId: 'unknown-text-tag',
       severity: 'error',
       message: `Unknown dynamic text tag: '${tag.tagName}'`,
       filePath: propInfo.filePath,
       line: absoluteTagNamePos.startLine,
+      range: absoluteTagNamePos,
     },
   ];
 }
@@ -197,10 +218,12 @@ function validateCommandTag(tag: ParsedDynamicTextTag, propInfo: PropertyInfo):
 
   if (tag.arguments.length === 0) {
     messages.push({
+      ruleId: 'unknown-text-command',
       severity: 'error',
       message: `Command tag requires a command name`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: `Expected format: <cmd=commandName=...=>`,
     });
     return messages;
@@ -232,20 +255,24 @@ function validateCommandTag(tag: ParsedDynamicTextTag, propInfo: PropertyInfo):
   if (providedForMissing < requiredCount) {
     const missingArg = cmdMetadata.required[providedForMissing];
     messages.push({
+      ruleId: 'text-tag-arguments',
       severity: 'error',
       message: `Command '${commandName}' is missing required ${missingArg?.name ?? 'argument'}`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: missingArg?.description,
     });
   }
 
   if (providedForTooMany > requiredCount + optionalCount) {
     messages.push({
+      ruleId: 'text-tag-arguments',
       severity: 'warning',
       message: `Command '${commandName}' has too many arguments`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: `Expected at most ${requiredCount + optionalCount} argument(s), got ${providedForTooMany}`,
     });
   }
@@ -284,10 +311,12 @@ function validateUnknownCommand(commandArg: ParsedDynamicTextArgument, propInfo:
 
     return [
       {
+        ruleId: 'unknown-text-command',
         severity: 'error',
         message: `Unknown command: '${commandName}'`,
         filePath: propInfo.filePath,
         line: absoluteCmdPos.startLine,
+        range: absoluteCmdPos,
         corrections,
       },
     ];
@@ -295,10 +324,12 @@ function validateUnknownCommand(commandArg: ParsedDynamicTextArgument, propInfo:
 
   return [
     {
+      ruleId: 'unknown-text-command',
       severity: 'error',
       message: `Unknown command: '${commandName}'`,
       filePath: propInfo.filePath,
       line: absoluteCmdPos.startLine,
+      range: absoluteCmdPos,
     },
   ];
 }
@@ -323,20 +354,24 @@ function validateArgumentCounts(
   if (providedForMissing < requiredCount) {
     const missingArg = tagMetadata.required[providedForMissing];
     messages.push({
+      ruleId: 'text-tag-arguments',
       severity: 'error',
       message: `Tag '${tag.tagName}' is missing required ${missingArg?.name ?? 'argument'}`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: missingArg?.description,
     });
   }
 
   if (providedForTooMany > requiredCount + optionalCount) {
     messages.push({
+      ruleId: 'text-tag-arguments',
       severity: 'warning',
       message: `Tag '${tag.tagName}' has too many arguments`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: `Expected at most ${requiredCount + optionalCount} argument(s), got ${providedForTooMany}`,
     });
   }
@@ -354,10 +389,12 @@ function validateNoNestedBrackets(args: ParsedDynamicTextArgument[], propInfo: P
     if (arg.value.includes('<')) {
       const absoluteArgPos = toAbsolutePosition(arg, propInfo.valueStartLine, propInfo.valueStartColumn);
       messages.push({
+        ruleId: 'text-tag-syntax',
         severity: 'error',
         message: `Nested angle brackets are not supported by the game`,
         filePath: propInfo.filePath,
         line: absoluteArgPos.startLine,
+        range: absoluteArgPos,
         context: `The '<' character in argument '${arg.value}' indicates a nested tag, which will not be handled by the game correctly.`,
       });
     }
@@ -410,10 +447,12 @@ function validateTrailingEquals(tag: ParsedDynamicTextTag, propInfo: PropertyInf
 
   return [
     {
+      ruleId: 'text-tag-syntax',
       severity: 'info',
       message: `Tag '${tag.tagName}' is missing trailing '='`,
       filePath: propInfo.filePath,
       line: absoluteTagPos.startLine,
+      range: absoluteTagPos,
       context: `Convention is to end tags with '=' even when there are no arguments (e.g., <${tag.tagName}=>)`,
     },
   ];
@@ -0,0 +1,74 @@
+/**
+ * Formula AST Tree
+ *
+ * Describes each node of a formula AST as a labelled tree, for the formula visualizer's DOT output
+ * and the formula playground page.
+ */
+
+import type { ASTNode } from './formula-parser.js';
+
+export interface ASTTreeNode {
+  type: ASTNode['type'];
+  detail: string; // Node-specific summary (e.g., the operator or value); empty if there's nothing to add
+  edge?: string; // How the parent refers to this node (e.g., 'left', 'body'); unset for the root
+  children: ASTTreeNode[];
+}
+
+/**
+ * TypeScript exhaustiveness check helper
+ * Throws an error for unhandled cases in discriminated unions
+ */
+function assertExhaustive(value: never): never {
+  throw new Error(`Unknown node type: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Build the tree for an AST
+ */
+export function getASTTree(ast: ASTNode, edge?: string): ASTTreeNode {
+  const tree = (detail: string, children: ASTTreeNode[] = []): ASTTreeNode =>
+    edge === undefined ? { type: ast.type, detail, children } : { type: ast.type, detail, edge, children };
+
+  switch (ast.type) {
+    case 'literal':
+      return tree(String(ast.value));
+
+    case 'variable':
+    case 'global':
+      return tree(ast.name, ast.type === 'global' && ast.argument ? [getASTTree(ast.argument, 'arg')] : []);
+
+    case 'function': {
+      const args = ast.args
+        .map(arg => {
+          if (arg.type === 'string') {
+            return `"${arg.value}"`;
+          }
+          // functionStyle arg
+          const params = arg.params.map(p => (p.type === 'literal' ? String(p.value) : '...')).join(',');
+          return `${arg.name}(${params})`;
+        })
+        .join(', ');
+      return tree(`${ast.name.value}: ${args}`, ast.body ? [getASTTree(ast.body, 'body')] : []);
+    }
+
+    case 'mathFunction': {
+      const children = [getASTTree(ast.name, 'name')];
+      if (ast.argument) {
+        children.push(getASTTree(ast.argument, 'arg'));
+      }
+      return tree('', children);
+    }
+
+    case 'functionName':
+      return tree(ast.value);
+
+    case 'binaryOp':
+      return tree(ast.operator, [getASTTree(ast.left, 'left'), getASTTree(ast.right, 'right')]);
+
+    case 'unaryOp':
+      return tree(ast.operator, [getASTTree(ast.operand, 'operand')]);
+
+    default:
+      return assertExhaustive(ast);
+  }
+}
@@ -38,6 +38,7 @@ import {
   type FormulaData,
 } from './formula-metadata.js';
 import { isValidFloat, isValidInteger, isValidByte } from './value-validators.js';
+import type { RuleId } from './rules.js';
 
 const data = formulaData as FormulaData;
 
@@ -48,6 +49,7 @@ for (const op of data.operators) {
 }
 
 export interface ValidationError {
+  ruleId: RuleId;
   message: string;
   context?: string | undefined;
   node: ASTNode | FunctionArg;
@@ -122,6 +124,7 @@ function validateFunctionCall(node: FunctionCallNode, path: string, allowXParame
     const suggestions = similar.map(s => s.value);
 
     errors.push({
+      ruleId: 'unknown-operator',
       message: `Unknown operator: '${node.name.value}'`,
       node: node.name, // Use the name node for corrections
       path,
@@ -139,6 +142,7 @@ function validateFunctionCall(node: FunctionCallNode, path: string, allowXParame
     canonicalName === 'm' || canonicalName === 'd' || operator.delegatesTo === 'm' || operator.delegatesTo === 'd';
   if (operator.isFunctionStyle && !isMathOperator) {
     errors.push({
+      ruleId: 'operator-syntax',
       message: `Operator '${node.name.value}' requires function-style syntax with parentheses, not colon-separated. Example: ${operator.uses[0]?.example || node.name.value + '(...)'}`,
       node: node.name, // Use the name node for corrections
       path,
@@ -166,6 +170,7 @@ function validateFunctionCall(node: FunctionCallNode, path: string, allowXParame
     });
 
     errors.push({
+      ruleId: 'operator-arguments',
       message: `Operator '${node.name.value}' does not have a use case with ${providedArgs} argument(s). Possible patterns: ${possiblePatterns.join(' OR ')}`,
       node: node.name, // Use the name node for corrections
       path,
@@ -197,6 +202,7 @@ function validateFunctionCall(node: FunctionCallNode, path: string, allowXParame
     const formulaArgIndex = expectedArgs.findIndex(a => a.type === 'formula');
     if (formulaArgIndex === -1) {
       errors.push({
+        ruleId: 'operator-arguments',
         message: `Operator '${node.name.value}' does not expect a formula body`,
         node: node.name, // Use the name node for corrections
         path: `${path}.body`,
@@ -246,6 +252,7 @@ function validateParameterType(
             : undefined;
 
         errors.push({
+          ruleId: 'invalid-operator-argument',
           message,
           context,
           node: param,
@@ -293,6 +300,7 @@ function validateFunctionArg(
         // Should be a valid integer
         if (!isValidInteger(value)) {
           errors.push({
+            ruleId: 'invalid-operator-argument',
             message: `Argument '${expectedArg.name}' of operator '${operatorName}' expects an integer, but got: '${value}'`,
             node: arg,
             path,
@@ -306,6 +314,7 @@ function validateFunctionArg(
         // Should be a valid float
         if (!isValidFloat(value)) {
           errors.push({
+            ruleId: 'invalid-operator-argument',
             message: `Argument '${expectedArg.name}' of operator '${operatorName}' expects a float, but got: '${value}'`,
             node: arg,
             path,
@@ -319,6 +328,7 @@ function validateFunctionArg(
         // Should be a valid byte (0-255)
         if (!isValidByte(value)) {
           errors.push({
+            ruleId: 'invalid-operator-argument',
             message: `Argument '${expectedArg.name}' of operator '${operatorName}' expects a byte (0-255), but got: '${value}'`,
             node: arg,
             path,
@@ -332,6 +342,7 @@ function validateFunctionArg(
         // Should be true/false or 0/1
         if (!['true', 'false', '0', '1'].includes(value.toLowerCase())) {
           errors.push({
+            ruleId: 'invalid-operator-argument',
             message: `Argument '${expectedArg.name}' of operator '${operatorName}' expects a boolean, but got: '${value}'`,
             node: arg,
             path,
@@ -371,6 +382,7 @@ function validateFunctionArg(
             const suggestions = similar.map(s => s.value.replace(/^m:/, ''));
 
             errors.push({
+              ruleId: 'unknown-operator',
               message: `Unknown operator: '${operatorName}:${value}'`,
               node: arg,
               path,
@@ -384,6 +396,7 @@ function validateFunctionArg(
 
       case 'formula':
         errors.push({
+          ruleId: 'invalid-operator-argument',
           message: `Argument '${expectedArg.name}' of operator '${operatorName}' expects a formula expression, not a simple string`,
           node: arg,
           path,
@@ -430,6 +443,7 @@ function validateFunctionArg(
         const suggestions = similar.map(s => s.value.replace(/^m:/, ''));
 
         errors.push({
+          ruleId: 'unknown-operator',
           message: `Unknown operator: '${operatorName}:${arg.name}'`,
           node: arg,
           path,
@@ -491,6 +505,7 @@ function validateFunctionArg(
         // No parameters expected, but some were provided
         if (arg.params.length > 0) {
           errors.push({
+            ruleId: 'operator-arguments',
             message: `Function '${arg.name}' in operator '${specificOperatorName}' does not accept parameters`,
             node: arg,
             path,
@@ -519,6 +534,7 @@ function validateMathFunction(node: MathFunctionNode, path: string, allowXParame
 
   if (!operator) {
     errors.push({
+      ruleId: 'unknown-operator',
       message: `Unknown function-style operator: '${node.name.value}'`,
       node: node.name, // Use the name node for corrections
       path,
@@ -531,6 +547,7 @@ function validateMathFunction(node: MathFunctionNode, path: string, allowXParame
   // Check if this operator should NOT use function-style syntax
   if (!operator.isFunctionStyle) {
     errors.push({
+      ruleId: 'operator-syntax',
       message: `Operator '${node.name.value}' should use colon-separated syntax, not parentheses. Example: ${operator.uses[0]?.example || node.name.value + ':...'}`,
       node: node.name, // Use the name node for corrections
       path,
@@ -0,0 +1,362 @@
+/**
+ * Formula Evaluator
+ *
+ * Computes the value of a parsed formula AST, to show what a formula actually gives.
+ *
+ * Arithmetic, math operators (min, max, abs, floor, ceiling, round) and comparison operators
+ * (lessThan, moreThan, is, isNot, between, not) are evaluated directly. Operators that read game state
+ * resolve through a FormulaContext:
+ * - c: and t: (and cIs:, tIsMoreThan:, etc.) read caster and target actor values
+ * - g: and its variants read global variables
+ * - item: reads item counts
+ * - d: and bare global formula names evaluate the formula text of a FormulaGlobal
+ * - m: calls the math functions the context provides
+ *
+ * Anything the context doesn't provide, and every other operator, produces a "needs context" result
+ * naming the operator, instead of a guessed value.
+ */
+
+import { parseFormula, type ASTNode, type FunctionCallNode } from './formula-parser.js';
+import { getOperator, resolveOperatorAlias } from './formula-metadata.js';
+import { copyPosition } from './position-utils.js';
+import type { PositionInfo } from './types.js';
+
+/**
+ * Game state for evaluating formulas
+ * Leave out anything that isn't known; operators that need it report which value is missing
+ */
+export interface FormulaContext {
+  caster?: Record<string, number> | undefined; // Actor values for c:, by name (e.g., { HP: 30, MagAtk: 12 })
+  target?: Record<string, number> | undefined; // Actor values for t:
+  globalVars?: Record<string, number | string>; // Global variables for g:, gIs:, etc.
+  items?: Record<string, number>; // Item counts for item:, by item ID
+  formulaGlobals?: Record<string, string>; // FormulaGlobal formulas for d:, by ID
+  math?: Record<string, number | ((parameter?: number) => number)>; // Math functions for m:, by name
+  x?: number | undefined; // The x parameter of a global formula
+}
+
+export interface NeedsContext {
+  operator: string; // The operator (or 'x') whose value is unknown
+  message: string;
+  range: PositionInfo; // Position of the operator in the formula it appears in
+}
+
+export type EvaluationResult =
+  | { value: number; needsContext?: undefined; error?: undefined }
+  | { value?: undefined; needsContext: NeedsContext; error?: undefined }
+  | { value?: undefined; needsContext?: undefined; error: string };
+
+/**
+ * Thrown to stop evaluating when a value isn't available
+ */
+class NeedsContextError extends Error {
+  constructor(readonly needsContext: NeedsContext) {
+    super(needsContext.message);
+  }
+}
+
+/**
+ * Round half to even, like C#'s Math.Round
+ */
+function roundHalfToEven(value: number): number {
+  const rounded = Math.round(value);
+  return Math.abs(value % 1) === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
+
+class FormulaEvaluator {
+  private globalStack: string[] = []; // Global formulas being evaluated, to detect cycles
+
+  constructor(private context: FormulaContext) {}
+
+  private needsContext(operator: string, message: string, node: PositionInfo): never {
+    throw new NeedsContextError({ operator, message, range: copyPosition(node) });
+  }
+
+  evaluate(node: ASTNode): number {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'variable':
+        if (this.context.x === undefined) {
+          return this.needsContext('x', "The value of 'x' is given by the formula that uses this global formula", node);
+        }
+        return this.context.x;
+
+      case 'unaryOp': {
+        const operand = this.evaluate(node.operand);
+        return node.operator === '-' ? -operand : operand;
+      }
+
+      case 'binaryOp': {
+        const left = this.evaluate(node.left);
+        const right = this.evaluate(node.right);
+        switch (node.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return left / right;
+          case '%':
+            return left % right;
+        }
+      }
+
+      case 'global':
+        return this.evaluateGlobalFormula(node.name, node.argument ? this.evaluate(node.argument) : undefined, node);
+
+      case 'mathFunction':
+        // Function-style global formulas, like d(swordDmg)
+        if (resolveOperatorAlias(node.name.value) === 'd' && node.argument?.type === 'global') {
+          return this.evaluateGlobalFormula(node.argument.name, undefined, node.argument);
+        }
+        return this.needsContext(node.name.value, `'${node.name.value}(...)' can't be evaluated here`, node.name);
+
+      case 'function':
+        return this.evaluateFunction(node);
+
+      case 'functionName':
+        break;
+    }
+    throw new Error(`Unexpected ${node.type} node`);
+  }
+
+  /**
+   * Evaluate a colon-style operator, like c:HP or min:5:c:HP
+   */
+  private evaluateFunction(node: FunctionCallNode): number {
+    const name = node.name.value;
+    const operator = resolveOperatorAlias(name) ?? name;
+    const stringArgs = node.args.map(arg => (arg.type === 'string' ? arg.value : arg.name));
+    const arg = (index: number) => stringArgs[index] ?? '';
+    const numberArg = (index: number) => {
+      const value = arg(index);
+      if (value === 'x' || value === 'X') {
+        return this.evaluate({ type: 'variable', name: value, ...copyPosition(node.args[index] ?? node) });
+      }
+      const number = parseFloat(value);
+      if (isNaN(number)) {
+        throw new Error(`Expected a number for ${name}, got '${value}'`);
+      }
+      return number;
+    };
+    const body = () => {
+      if (!node.body) {
+        throw new Error(`Missing formula for ${name}`);
+      }
+      return this.evaluate(node.body);
+    };
+    const lookup = <T>(values: Record<string, T> | undefined, key: string, description: string): T => {
+      const value = values && Object.prototype.hasOwnProperty.call(values, key) ? values[key] : undefined;
+      if (value === undefined) {
+        return this.needsContext(operator, `${description} '${key}' is not in the context`, node.name);
+      }
+      return value;
+    };
+    const casterValue = (actorValue: string) => lookup(this.context.caster, actorValue, 'Caster actor value');
+    const targetValue = (actorValue: string) => lookup(this.context.target, actorValue, 'Target actor value');
+    const globalVar = (varName: string) => lookup(this.context.globalVars, varName, 'Global variable');
+    const numericGlobalVar = (varName: string) => {
+      const value = Number(globalVar(varName));
+      if (isNaN(value)) {
+        return this.needsContext(operator, `Global variable '${varName}' doesn't hold a number`, node.name);
+      }
+      return value;
+    };
+    const globalFormula = () => {
+      // d:name(x) passes an x parameter to the global formula
+      const formulaArg = node.args[0];
+      if (formulaArg?.type === 'functionStyle') {
+        const x = formulaArg.params[0] ? this.evaluate(formulaArg.params[0]) : undefined;
+        return this.evaluateGlobalFormula(formulaArg.name, x, formulaArg);
+      }
+      return this.evaluateGlobalFormula(arg(0), undefined, formulaArg ?? node);
+    };
+    const mathFunction = () => {
+      const mathArg = node.args[0];
+      const functionName = mathArg?.type === 'functionStyle' ? mathArg.name : arg(0);
+      const parameter =
+        mathArg?.type === 'functionStyle' && mathArg.params[0] ? this.evaluate(mathArg.params[0]) : undefined;
+      const fn = lookup(this.context.math, functionName, 'Math function');
+      return typeof fn === 'function' ? fn(parameter) : fn;
+    };
+
+    switch (operator) {
+      // Math
+      case 'min':
+        return Math.max(numberArg(0), body());
+      case 'max':
+        return Math.min(numberArg(0), body());
+      case 'abs':
+        return Math.abs(body());
+      case 'floor':
+        return Math.floor(body());
+      case 'ceiling':
+        return Math.ceil(body());
+      case 'round':
+        return roundHalfToEven(body());
+
+      // Comparisons
+      case 'lessThan':
+        return body() < numberArg(0) ? 1 : 0;
+      case 'moreThan':
+        return body() > numberArg(0) ? 1 : 0;
+      case 'is':
+        return body() === numberArg(0) ? 1 : 0;
+      case 'isNot':
+        return body() !== numberArg(0) ? 1 : 0;
+      case 'between': {
+        const value = body();
+        return value > numberArg(0) && value < numberArg(1) ? 1 : 0;
+      }
+      case 'not':
+        return body() <= 0 ? 1 : 0;
+      case 'debug':
+        return body();
+
+      // Actor values
+      case 'c':
+        return casterValue(arg(0));
+      case 't':
+        return targetValue(arg(0));
+      case 'cIs1':
+        return casterValue(arg(0)) === 1 ? 1 : 0;
+      case 'tIs1':
+        return targetValue(arg(0)) === 1 ? 1 : 0;
+      case 'tIs99':
+        return targetValue(arg(0)) === 99 ? 1 : 0;
+      case 'cIs':
+        return casterValue(arg(0)) === numberArg(1) ? 1 : 0;
+      case 'tIs':
+        return targetValue(arg(0)) === numberArg(1) ? 1 : 0;
+      case 'cIsMoreThan':
+        return casterValue(arg(0)) > numberArg(1) ? 1 : 0;
+      case 'tIsMoreThan':
+        return targetValue(arg(0)) > numberArg(1) ? 1 : 0;
+      case 'cIsLessThan':
+        return casterValue(arg(0)) < numberArg(1) ? 1 : 0;
+      case 'tIsLessThan':
+        return targetValue(arg(0)) < numberArg(1) ? 1 : 0;
+      case 'swapCasterTarget': {
+        const { caster, target } = this.context;
+        const swapped = new FormulaEvaluator({ ...this.context, caster: target, target: caster });
+        swapped.globalStack = this.globalStack;
+        if (!node.body) {
+          throw new Error(`Missing formula for ${name}`);
+        }
+        return swapped.evaluate(node.body);
+      }
+
+      // Global variables
+      case 'g':
+        return numericGlobalVar(arg(0));
+      case 'g1':
+        return Math.min(1, numericGlobalVar(arg(0)));
+      case 'gIs0':
+        return numericGlobalVar(arg(0)) === 0 ? 1 : 0;
+      case 'gIs1':
+        return numericGlobalVar(arg(0)) === 1 ? 1 : 0;
+      case 'gIs2':
+        return numericGlobalVar(arg(0)) === 2 ? 1 : 0;
+      case 'gIsLessThan':
+        return numericGlobalVar(arg(0)) < numberArg(1) ? 1 : 0;
+      case 'gIsMoreThan':
+        return numericGlobalVar(arg(0)) > numberArg(1) ? 1 : 0;
+      case 'gIs':
+        return String(globalVar(arg(0))) === arg(1) ? 1 : 0;
+      case 'gIsNot':
+        return String(globalVar(arg(0))) !== arg(1) ? 1 : 0;
+      case 'gIsString': {
+        const value = String(globalVar(arg(0)));
+        return value !== '' && value !== '0' && isNaN(Number(value)) ? 1 : 0;
+      }
+
+      // Items
+      case 'item':
+        return lookup(this.context.items, arg(0), 'Item count for');
+
+      // Global formulas
+      case 'd':
+        return globalFormula();
+      case 'dMin0':
+        return Math.max(0, globalFormula());
+      case 'dMax0':
+        return Math.min(0, globalFormula());
+      case 'dMax1':
+        return Math.min(1, globalFormula());
+      case 'dMaxNeg1':
+        return Math.min(-1, globalFormula());
+      case 'dMin':
+        return Math.max(numberArg(1), globalFormula());
+      case 'dMax':
+        return Math.min(numberArg(1), globalFormula());
+
+      // Math functions
+      case 'm':
+        return mathFunction();
+      case 'mMin0':
+        return Math.max(0, mathFunction());
+      case 'mIs0':
+        return mathFunction() === 0 ? 1 : 0;
+    }
+
+    const known = getOperator(name);
+    return this.needsContext(
+      operator,
+      known
+        ? `'${operator}' depends on game state that can't be evaluated here (${known.category})`
+        : `Unknown operator '${name}'`,
+      node.name
+    );
+  }
+
+  /**
+   * Evaluate the formula of a FormulaGlobal, with its own x parameter
+   */
+  private evaluateGlobalFormula(name: string, x: number | undefined, node: PositionInfo): number {
+    const formula = this.context.formulaGlobals?.[name];
+    if (formula === undefined) {
+      return this.needsContext(name, `Global formula '${name}' is not in the context`, node);
+    }
+    if (this.globalStack.includes(name)) {
+      throw new Error(`Global formula cycle: ${[...this.globalStack, name].join(' → ')}`);
+    }
+
+    const evaluator = new FormulaEvaluator({ ...this.context, x });
+    evaluator.globalStack = [...this.globalStack, name];
+    return evaluator.evaluate(parseFormula(formula));
+  }
+}
+
+/**
+ * Evaluate a parsed formula
+ *
+ * @returns The value; or the operator whose value the context doesn't provide;
+ *          or an error (e.g., a global formula that doesn't parse, or global formulas that refer to each other)
+ */
+export function evaluateAST(ast: ASTNode, context: FormulaContext = {}): EvaluationResult {
+  try {
+    return { value: new FormulaEvaluator(context).evaluate(ast) };
+  } catch (error) {
+    if (error instanceof NeedsContextError) {
+      return { needsContext: error.needsContext };
+    }
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Parse and evaluate a formula
+ */
+export function evaluateFormula(formula: string, context: FormulaContext = {}): EvaluationResult {
+  let ast: ASTNode;
+  try {
+    ast = parseFormula(formula);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return evaluateAST(ast, context);
+}
@@ -65,6 +65,33 @@ export const operatorsWithFormulaBodies = new Set<string>();
  */
 export const operatorAlternateDelimiters = new Map<string, string[]>();
 
+/**
+ * Map of operators to the (non-formula) argument positions that name a global variable
+ * 'name' arguments hold a full variable name, while 'prefix' arguments hold the start of
+ * a name that gets a runtime value (like the current location ID) appended
+ * Examples: g -> {0: 'name'}, gPlusLocID -> {0: 'prefix'}, g_gID -> {0: 'prefix', 1: 'name'}
+ */
+export const globalVarArguments = new Map<string, Map<number, 'name' | 'prefix'>>();
+
+/**
+ * Argument names that hold the ID of a definition, mapped to the definition type
+ * actorValue arguments (e.g., c:, t:) aren't checked until the base game catalog lists every ActorValue
+ */
+const DEFINITION_ARGUMENT_TYPES: Record<string, string> = {
+  itemID: 'ItemType',
+  actorTypeID: 'ActorType',
+  dialogNodeID: 'DialogNode',
+  factionID: 'Faction',
+  locationID: 'Location',
+  formulaName: 'GlobalFormula',
+};
+
+/**
+ * Map of operators to the (non-formula) argument positions that name a definition by ID
+ * Examples: item -> {0: 'ItemType'}, kills -> {0: 'ActorType'}, dsa -> {1: 'GlobalFormula'}
+ */
+export const definitionArguments = new Map<string, Map<number, string>>();
+
 // Build the maps from formula.json data
 for (const op of data.operators) {
   const args = op.uses[0]?.arguments || [];
@@ -92,6 +119,31 @@ for (const op of data.operators) {
   if (op.alternateDelimiters && op.alternateDelimiters.length > 0) {
     operatorAlternateDelimiters.set(op.name, op.alternateDelimiters);
   }
+
+  // Track arguments that name global variables
+  const varArgs = new Map<number, 'name' | 'prefix'>();
+  nonFormulaArgs.forEach((arg, index) => {
+    if (arg.name === 'varName' || arg.name === 'globalVarName') {
+      varArgs.set(index, 'name');
+    } else if (arg.name === 'prefix') {
+      varArgs.set(index, 'prefix');
+    }
+  });
+  if (varArgs.size > 0) {
+    globalVarArguments.set(op.name, varArgs);
+  }
+
+  // Track arguments that name definitions
+  const idArgs = new Map<number, string>();
+  nonFormulaArgs.forEach((arg, index) => {
+    const definitionType = DEFINITION_ARGUMENT_TYPES[arg.name];
+    if (definitionType) {
+      idArgs.set(index, definitionType);
+    }
+  });
+  if (idArgs.size > 0) {
+    definitionArguments.set(op.name, idArgs);
+  }
 }
 
 /**
@@ -137,6 +189,22 @@ export function getAllOperatorNames(): string[] {
   return data.operators.map(op => op.name);
 }
 
+/**
+ * Get all operator definitions (for autocomplete/documentation)
+ */
+export function getAllOperators(): FormulaOperator[] {
+  return data.operators;
+}
+
+/**
+ * Get an operator definition by name or alias
+ * Returns undefined if the operator doesn't exist
+ */
+export function getOperator(nameOrAlias: string): FormulaOperator | undefined {
+  const canonical = resolveOperatorAlias(nameOrAlias);
+  return canonical ? data.operators.find(op => op.name === canonical) : undefined;
+}
+
 /**
  * Get operator categories
  */
@@ -163,6 +231,26 @@ export function getAlternateDelimiters(operatorName: string): string[] | undefin
   return canonical ? operatorAlternateDelimiters.get(canonical) : undefined;
 }
 
+/**
+ * Get the argument positions that name global variables for an operator
+ * Accepts both operator names and aliases
+ * Returns undefined if the operator doesn't read global variables
+ */
+export function getGlobalVarArguments(operatorName: string): Map<number, 'name' | 'prefix'> | undefined {
+  const canonical = resolveOperatorAlias(operatorName);
+  return canonical ? globalVarArguments.get(canonical) : undefined;
+}
+
+/**
+ * Get the argument positions that name a definition by ID for an operator
+ * Accepts both operator names and aliases
+ * Returns undefined if the operator doesn't take any IDs
+ */
+export function getDefinitionArguments(operatorName: string): Map<number, string> | undefined {
+  const canonical = resolveOperatorAlias(operatorName);
+  return canonical ? definitionArguments.get(canonical) : undefined;
+}
+
 /**
  * Get the operator that this operator delegates to (e.g., "m" for mIs0)
  * Accepts both operator names and aliases
@@ -0,0 +1,204 @@
+/**
+ * Formula type checker
+ *
+ * Infers whether formulas return a boolean (0 or 1) or a float, from the `returns` of each operator use
+ * in formula.json, and flags combinations that are valid but probably not what the author meant.
+ */
+
+import type { ASTNode, FunctionCallNode, ValidationError } from './formula-parser.js';
+import { getOperator } from './formula-metadata.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+import type { SchemaData } from './types.js';
+
+export type FormulaType = 'boolean' | 'float' | 'unknown';
+
+const schema = (modSchemaData as SchemaData).schema;
+
+/**
+ * Operators that return the value of their formula body unchanged
+ */
+const PASS_THROUGH_CATEGORIES = new Set(['context-swap', 'debug']);
+
+const OPERATOR_VERBS: Record<string, string> = {
+  '+': 'added to',
+  '-': 'reduced by',
+  '*': 'multiplied by',
+  '/': 'divided by',
+  '%': 'taken modulo',
+};
+
+/**
+ * Check whether a property's formula is used as a condition (e.g., fReq, discoverable_fReq, formulaReq)
+ *
+ * @param objectType - Resolved type of the object the property belongs to
+ */
+export function isConditionProperty(objectType: string, propertyName: string): boolean {
+  return schema[objectType]?.fields.some(field => field.name === propertyName && field.condition === true) ?? false;
+}
+
+/**
+ * Get the return type of an operator call, from the uses that match its argument count
+ */
+function inferFunctionType(node: FunctionCallNode): FormulaType {
+  const operator = getOperator(node.name.value);
+  if (!operator) {
+    return 'unknown';
+  }
+  if (PASS_THROUGH_CATEGORIES.has(operator.category)) {
+    return node.body ? inferFormulaType(node.body) : 'unknown';
+  }
+
+  // d:name returns whatever the global formula does, and m:name whatever the math function does
+  if (operator.name === 'd') {
+    return 'unknown';
+  }
+  let uses = operator.uses;
+  if (operator.name === 'm') {
+    const arg = node.args[0];
+    const mathFunction = arg ? getOperator(`m:${arg.type === 'string' ? arg.value : arg.name}`) : undefined;
+    if (!mathFunction) {
+      return 'unknown';
+    }
+    uses = mathFunction.uses;
+  } else {
+    const argCount = node.args.length + (node.body ? 1 : 0);
+    const matchingUses = uses.filter(use => (use.arguments?.length ?? 0) === argCount);
+    if (matchingUses.length > 0) {
+      uses = matchingUses;
+    }
+  }
+
+  const returns = new Set(uses.map(use => use.returns));
+  const [type] = returns;
+  return returns.size === 1 && (type === 'boolean' || type === 'float') ? type : 'unknown';
+}
+
+/**
+ * Infer the type of a formula
+ * Sums and differences of booleans (e.g., `1-gIs1:done`) are still treated as conditions,
+ * since the game tests conditions for being more than 0
+ */
+export function inferFormulaType(ast: ASTNode): FormulaType {
+  switch (ast.type) {
+    case 'literal':
+      return ast.value === 0 || ast.value === 1 ? 'boolean' : 'float';
+
+    case 'function':
+      return inferFunctionType(ast);
+
+    case 'binaryOp': {
+      const left = inferFormulaType(ast.left);
+      const right = inferFormulaType(ast.right);
+      if (left === 'unknown' || right === 'unknown') {
+        return 'unknown';
+      }
+      const keepsBoolean = ast.operator === '+' || ast.operator === '-' || ast.operator === '*';
+      return keepsBoolean && left === 'boolean' && right === 'boolean' ? 'boolean' : 'float';
+    }
+
+    case 'unaryOp':
+      return ast.operator === '+' ? inferFormulaType(ast.operand) : 'float';
+
+    // Global formulas and x can return anything
+    case 'variable':
+    case 'global':
+    case 'mathFunction':
+    case 'functionName':
+      return 'unknown';
+  }
+}
+
+/**
+ * Find conditions whose formula body is followed by arithmetic, like `lessThan:5:c:HP*2`
+ * The condition only tests `c:HP`, and its 0 or 1 result is then multiplied by 2
+ * Gates that put the value first (e.g., `2*lessThan:5:c:HP`) aren't flagged
+ */
+function checkConditionPrecedence(ast: ASTNode, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  switch (ast.type) {
+    case 'binaryOp': {
+      // The operand right before the operator; a condition that starts a term after + or - still reads
+      // as if it tests the rest of the formula
+      let left = ast.left;
+      while (left.type === 'binaryOp' && (left.operator === '+' || left.operator === '-')) {
+        left = left.right;
+      }
+      if (
+        left.type === 'function' &&
+        left.body &&
+        inferFunctionType(left) === 'boolean' &&
+        inferFormulaType(ast.right) === 'float'
+      ) {
+        errors.push({
+          ruleId: 'condition-precedence',
+          message: `'${left.name.value}' only tests the value right after it, then its 0 or 1 result is ${OPERATOR_VERBS[ast.operator]} what follows`,
+          context: `To use a value only when the condition holds, put the value first (e.g., 2*${left.name.value}:...). To test a combined value, define it in a [FormulaGlobal] and test d:name.`,
+          node: left.name,
+          path,
+          operatorName: left.name.value,
+          suggestions: [],
+        });
+      }
+      errors.push(...checkConditionPrecedence(ast.left, `${path}.left`));
+      errors.push(...checkConditionPrecedence(ast.right, `${path}.right`));
+      break;
+    }
+
+    case 'unaryOp':
+      errors.push(...checkConditionPrecedence(ast.operand, `${path}.operand`));
+      break;
+
+    case 'function':
+      if (ast.body) {
+        errors.push(...checkConditionPrecedence(ast.body, `${path}.body`));
+      }
+      ast.args.forEach((arg, i) => {
+        if (arg.type === 'functionStyle') {
+          arg.params.forEach((param, j) => {
+            errors.push(...checkConditionPrecedence(param, `${path}.args[${i}].params[${j}]`));
+          });
+        }
+      });
+      break;
+
+    case 'global':
+    case 'mathFunction':
+      if (ast.argument) {
+        errors.push(...checkConditionPrecedence(ast.argument, `${path}.argument`));
+      }
+      break;
+
+    case 'literal':
+    case 'variable':
+    case 'functionName':
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Check a formula for suspicious combinations of types
+ *
+ * @param propertyName - Property the formula is assigned to, to check that conditions return booleans
+ * @param objectType - Resolved type of the object the property belongs to
+ */
+export function checkFormulaTypes(ast: ASTNode, propertyName: string, objectType: string): ValidationError[] {
+  const errors = checkConditionPrecedence(ast, 'root');
+
+  if (isConditionProperty(objectType, propertyName) && inferFormulaType(ast) === 'float') {
+    errors.push({
+      ruleId: 'non-boolean-condition',
+      message: `'${propertyName}' is a condition, but this formula returns a number rather than 0 or 1`,
+      context:
+        'The condition holds whenever the number is more than 0. Compare it explicitly (e.g., moreThan:0:...) if that is intended.',
+      node: ast,
+      path: 'root',
+      operatorName: null,
+      suggestions: [],
+    });
+  }
+
+  return errors;
+}
@@ -1,10 +1,12 @@
 /**
  * Formula validator
- * Validates formula syntax using the AST parser and validator
+ * Validates formula syntax using the AST parser and validator, then checks the formula's types
  */
 
 import { ValidationMessage, Correction, PropertyInfo } from './types.js';
 import { parseFormula, validateAST, type ValidationError } from './formula-parser.js';
+import { checkFormulaTypes } from './formula-type-checker.js';
+import { getValueRange, toAbsolutePosition } from './position-utils.js';
 
 /**
  * Validate a formula string using the AST parser and validator
@@ -22,37 +24,48 @@ export function validateFormula(
     return messages;
   }
 
-  const allowXParameter = objectType === 'FormulaGlobal' && propertyName === 'formula';
+  const allowXParameter =
+    (objectType === 'FormulaGlobal' || objectType === 'GlobalFormula') && propertyName === 'formula';
 
   try {
     const ast = parseFormula(formula);
     const validationErrors = validateAST(ast, undefined, allowXParameter);
+    const typeErrors = checkFormulaTypes(ast, propertyName, objectType);
 
     // Convert AST validation errors to ValidationMessages
-    for (const error of validationErrors) {
-      const corrections = createCorrections(formula, error, propInfo);
+    // Type errors are only warnings, since the formulas still run
+    for (const [errors, severity] of [
+      [validationErrors, 'error'],
+      [typeErrors, 'warning'],
+    ] as const) {
+      for (const error of errors) {
+        const corrections = createCorrections(formula, error, propInfo);
 
-      // Calculate actual line number for multi-line formulas
-      // Node positions are relative to formula start, so add to property value start line
-      const errorLine = propInfo.valueStartLine + error.node.startLine;
+        // Calculate actual position for multi-line formulas
+        // Node positions are relative to formula start, so add to property value start position
+        const range = toAbsolutePosition(error.node, propInfo.valueStartLine, propInfo.valueStartColumn);
 
-      messages.push({
-        ...error, // FIXME: Look into unifying ValidationError and ValidationMessage
-        severity: 'error',
-        filePath: propInfo.filePath,
-        line: errorLine,
-        formulaReference: error.operatorName ?? undefined,
-        corrections: corrections.length > 0 ? corrections : undefined,
-      });
+        messages.push({
+          ...error, // FIXME: Look into unifying ValidationError and ValidationMessage
+          severity,
+          filePath: propInfo.filePath,
+          line: range.startLine,
+          range,
+          formulaReference: error.operatorName ?? undefined,
+          corrections: corrections.length > 0 ? corrections : undefined,
+        });
+      }
     }
   } catch (e: unknown) {
     // Parse error
     const errorMessage = e instanceof Error ? e.message : String(e);
     messages.push({
+      ruleId: 'formula-syntax',
       severity: 'error',
       message: `Formula parse error: ${errorMessage}`,
       filePath: propInfo.filePath,
       line: propInfo.valueStartLine,
+      range: getValueRange(propInfo),
     });
   }
 
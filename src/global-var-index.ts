@@ -0,0 +1,432 @@
+/**
+ * Global variable symbol table
+ *
+ * Collects every place a global variable is written or read across all loaded files:
+ * - Task strings that set or modify a variable (setGlobalVar, modGlobalVar, appendToGlobalVar, ...)
+ * - Task strings that read a variable by name (spawn_g, removeItem_g, ...) or via @G parameters
+ * - Formula operators with a variable name argument (g, gIs, gIsMoreThan, gTimeSince, ...)
+ * - Dynamic text tags that display a variable (<g=...>, <item_global=...>, ...)
+ */
+
+import type {
+  DynamicTextData,
+  ModSchema,
+  ParsedObject,
+  ParsedParameter,
+  PositionInfo,
+  PropertyInfo,
+  SchemaData,
+} from './types.js';
+import { TaskValidator, getTaskStringProperties } from './task-validator.js';
+import { parseFormula, type ASTNode } from './formula-parser.js';
+import { getGlobalVarArguments } from './formula-metadata.js';
+import { parseDynamicText, containsDynamicText } from './dynamic-text-parser.js';
+import { createPositionInfo, offsetToPosition, toAbsolutePosition } from './position-utils.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+import dynamicTextJsonData from './dynamic-text.json' with { type: 'json' };
+
+/**
+ * How a task parameter uses a global variable
+ * - write: sets or modifies the named variable
+ * - writePrefix: writes a variable whose name starts with this value (a runtime ID is appended)
+ * - read: reads the named variable
+ * - formula: a formula that may itself read variables
+ */
+type GlobalVarTaskUse = 'write' | 'writePrefix' | 'read' | 'formula';
+
+/**
+ * Task parameters that name a global variable, keyed by canonical task name
+ * Each entry maps an index into the task's strings array to how the variable is used
+ */
+export const GLOBAL_VAR_TASK_PARAMETERS: Record<string, Record<number, GlobalVarTaskUse>> = {
+  set: { 0: 'write' },
+  setGlobalVar: { 0: 'write' },
+  setGlobalVar_math: { 0: 'write', 1: 'formula' },
+  setGlobalVar_toOtherGlobalVar: { 0: 'write', 1: 'read' },
+  setGlobalVarToZoneProperty: { 0: 'write' },
+  setGlobalVar_toPartyActorID: { 0: 'write' },
+  setGlobalVar_toActorID: { 0: 'write' },
+  setGlobalVarWithCommas: { 0: 'write' },
+  setGlobalVarTo0: { 0: 'write' },
+  setGlobalVarToTalkerID: { 0: 'write' },
+  setGlobalVarToLocID: { 0: 'write' },
+  setGlobalVarToPartyActorNum: { 0: 'write' },
+  setGlobalVarToActorProperty: { 0: 'write' },
+  setGlobalVarWithTalkerID: { 0: 'writePrefix' },
+  setGlobalVarPlusLocID: { 0: 'writePrefix' },
+  setGlobalVarPlusLocID_math: { 0: 'writePrefix', 1: 'formula' },
+  setGlobalVarPlusZoneID: { 0: 'writePrefix' },
+  clearGlobalVar: { 0: 'write' },
+  modGlobalVar: { 0: 'write' },
+  appendToGlobalVar: { 0: 'write', 1: 'formula' },
+  appendToGlobalVar_string: { 0: 'write' },
+  appendToGlobalVar_zoneID: { 0: 'write' },
+  appendToGlobalVar_locID: { 0: 'write' },
+  travel_point_g: { 0: 'read' },
+  spawn_g: { 0: 'read' },
+  spawn_g_nearPlayer: { 0: 'read' },
+  giveGlobalVarGP: { 0: 'read' },
+  removeCargo_g: { 0: 'read' },
+  removeItem_g: { 0: 'read' },
+  removeItem: { 1: 'read' },
+  removeItemsNearPlayerActor: { 1: 'read' },
+  removeAllItems: { 1: 'read' },
+  task_gvar: { 0: 'read' },
+  get: { 0: 'read' },
+};
+
+/**
+ * Tasks whose strings all name a global variable from an index onward (e.g., strings[0+]), keyed by canonical task name
+ */
+export const GLOBAL_VAR_TASK_LIST_PARAMETERS: Record<string, { from: number; use: GlobalVarTaskUse }> = {
+  setupPartyFromGVars: { from: 0, use: 'read' },
+};
+
+/**
+ * Get how a task uses the string at an index of its strings array, if it names a global variable
+ */
+function getGlobalVarTaskUse(taskName: string, stringIndex: number): GlobalVarTaskUse | undefined {
+  const listUse = GLOBAL_VAR_TASK_LIST_PARAMETERS[taskName];
+  if (listUse && stringIndex >= listUse.from) {
+    return listUse.use;
+  }
+  return GLOBAL_VAR_TASK_PARAMETERS[taskName]?.[stringIndex];
+}
+
+/**
+ * TriggerEffect properties that fill the task's strings array (when taskString is not used)
+ */
+const TRIGGER_EFFECT_STRING_PROPERTIES = ['sValue', 'sValue1', 'sValue2'];
+
+// Dynamic text tags whose first argument is a global variable name (including aliases)
+const dynamicTextData = dynamicTextJsonData as DynamicTextData;
+const globalVarTags = new Set<string>();
+for (const tag of dynamicTextData.tags) {
+  const firstArg = tag.required[0] ?? tag.optional[0];
+  if (firstArg && /^global variable name/i.test(firstArg.description)) {
+    globalVarTags.add(tag.name);
+    tag.aliases.forEach(alias => globalVarTags.add(alias));
+  }
+}
+
+export type GlobalVarAccessKind = 'write' | 'read';
+
+/**
+ * A single write or read of a global variable
+ *
+ * Positions use the same conventions as Correction:
+ * lines are 1-indexed, columns are 0-indexed, endColumn is exclusive
+ */
+export interface GlobalVarAccess {
+  name: string;
+  kind: GlobalVarAccessKind;
+  isPrefix: boolean; // Only the start of the name is known (a runtime value like a location ID is appended)
+  source: 'task' | 'formula' | 'dynamicText';
+  via: string; // Task, formula operator or dynamic text tag that accesses the variable
+  sourceObject: ParsedObject;
+  propertyName: string;
+  filePath: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export class GlobalVarIndex {
+  private schema: ModSchema;
+  private typeAliases: Record<string, string>;
+  private taskValidator = new TaskValidator();
+  private accesses: GlobalVarAccess[] = [];
+
+  constructor(objects: ParsedObject[]) {
+    const data = modSchemaData as SchemaData;
+    this.schema = data.schema;
+    this.typeAliases = data.typeAliases;
+
+    for (const obj of objects) {
+      this.indexObject(obj);
+    }
+  }
+
+  /**
+   * Get every write and read, in file order
+   */
+  getAccesses(): GlobalVarAccess[] {
+    return this.accesses;
+  }
+
+  /**
+   * Get every variable name that is written in full (not just by prefix)
+   */
+  getWrittenNames(): string[] {
+    return this.getNames('write');
+  }
+
+  /**
+   * Get every variable name that is read in full (not just by prefix)
+   */
+  getReadNames(): string[] {
+    return this.getNames('read');
+  }
+
+  /**
+   * Check whether a variable is written, either by name or by a prefix write
+   */
+  isWritten(name: string): boolean {
+    return this.accesses.some(access => access.kind === 'write' && this.matches(access, name));
+  }
+
+  /**
+   * Check whether a variable is read, either by name or by a prefix read
+   */
+  isRead(name: string): boolean {
+    return this.accesses.some(access => access.kind === 'read' && this.matches(access, name));
+  }
+
+  private matches(access: GlobalVarAccess, name: string): boolean {
+    return access.isPrefix ? name.startsWith(access.name) : access.name === name;
+  }
+
+  private getNames(kind: GlobalVarAccessKind): string[] {
+    const names = this.accesses.filter(access => access.kind === kind && !access.isPrefix).map(access => access.name);
+    return Array.from(new Set(names));
+  }
+
+  private indexObject(obj: ParsedObject): void {
+    const resolvedType = this.typeAliases[obj.type] || obj.type;
+    const classSchema = this.schema[resolvedType];
+    const taskStringProperties = getTaskStringProperties(obj, resolvedType);
+    const taskStringInfos = new Set(taskStringProperties.map(prop => prop.info));
+
+    for (const { name, info } of taskStringProperties) {
+      this.indexTaskString(obj, name, info);
+    }
+
+    if (resolvedType === 'TriggerEffect') {
+      this.indexTriggerEffect(obj);
+    }
+
+    if (!classSchema) {
+      return;
+    }
+
+    for (const { name: propName, info } of obj.assignments) {
+      if (taskStringInfos.has(info)) continue;
+
+      const name = propName.replace(/^!/, '').replace(/\++$/, '');
+      const fields = classSchema.fields.filter(field => field.name === name);
+      const field = fields.find(f => !f.virtual) ?? fields[0];
+      if (!field) continue;
+
+      if (field.type === 'Formula' || field.type === 'List<Formula>') {
+        this.indexFormula(obj, name, info, info.value, { startLine: 0, startColumn: 0, endLine: 0, endColumn: 0 });
+      } else if (field.type === 'string' || field.type === 'List<string>') {
+        this.indexDynamicText(obj, name, info);
+      }
+    }
+  }
+
+  private addAccess(
+    obj: ParsedObject,
+    propertyName: string,
+    info: PropertyInfo,
+    access: Pick<GlobalVarAccess, 'name' | 'kind' | 'isPrefix' | 'source' | 'via'>,
+    position: PositionInfo
+  ): void {
+    if (!access.name) return;
+
+    this.accesses.push({
+      ...access,
+      sourceObject: obj,
+      propertyName,
+      filePath: info.filePath,
+      ...toAbsolutePosition(position, info.valueStartLine, info.valueStartColumn),
+    });
+  }
+
+  private indexTaskString(obj: ParsedObject, propertyName: string, info: PropertyInfo): void {
+    const parsed = this.taskValidator.parseTaskString(info.value);
+    const taskName = this.taskValidator.resolveTaskName(parsed.taskName) ?? parsed.taskName;
+
+    let stringIndex = 0;
+    for (const param of parsed.parameters) {
+      const paramText = this.getParameterText(info.value, param);
+
+      // @G parameters read a variable and substitute its value
+      const globalVarName = param.type === 'globalVarSubstitution' ? param.varName : this.getGlobalVarName(param);
+      if (globalVarName !== undefined) {
+        const nameOffset = paramText.indexOf('@G') + 2;
+        this.addAccess(
+          obj,
+          propertyName,
+          info,
+          { name: globalVarName, kind: 'read', isPrefix: false, source: 'task', via: '@G' },
+          this.spanWithin(param, paramText, nameOffset, globalVarName)
+        );
+      }
+
+      // Formulas passed with @F/@R can read variables too
+      if (param.type === 'formula' && !param.globalVarName) {
+        this.indexFormula(obj, propertyName, info, param.formula, this.spanWithin(param, paramText, 2, param.formula));
+      }
+
+      if (param.type !== 'string' && param.type !== 'globalVarSubstitution') continue;
+      const use = getGlobalVarTaskUse(taskName, stringIndex);
+      stringIndex++;
+
+      if (!use || param.type !== 'string' || param.globalVarName !== undefined) continue;
+
+      const prefixLength = param.source === 'plain' ? 0 : 2;
+      const value = param.value.trim();
+      const valueOffset = prefixLength + param.value.indexOf(value);
+      const span = this.spanWithin(param, paramText, valueOffset, value);
+
+      if (use === 'formula') {
+        this.indexFormula(obj, propertyName, info, value, span);
+      } else {
+        const kind = use === 'read' ? 'read' : 'write';
+        const isPrefix = use === 'writePrefix';
+        this.addAccess(obj, propertyName, info, { name: value, kind, isPrefix, source: 'task', via: taskName }, span);
+      }
+    }
+  }
+
+  /**
+   * TriggerEffect can name its task with effectID and fill parameters with individual properties
+   */
+  private indexTriggerEffect(obj: ParsedObject): void {
+    if (obj.properties.get('taskString')?.value.trim()) return;
+
+    const effectID = obj.properties.get('effectID')?.value.trim();
+    const taskName = effectID ? this.taskValidator.resolveTaskName(effectID) : undefined;
+    if (!taskName) return;
+
+    TRIGGER_EFFECT_STRING_PROPERTIES.forEach((propName, index) => {
+      const use = getGlobalVarTaskUse(taskName, index);
+      const info = obj.properties.get(propName);
+      const value = info?.value.trim();
+      if (!use || !info || !value) return;
+
+      const span = createPositionInfo(offsetToPosition(info.value, info.value.indexOf(value)), value);
+      if (use === 'formula') {
+        this.indexFormula(obj, propName, info, value, span);
+      } else {
+        const kind = use === 'read' ? 'read' : 'write';
+        const isPrefix = use === 'writePrefix';
+        this.addAccess(obj, propName, info, { name: value, kind, isPrefix, source: 'task', via: taskName }, span);
+      }
+    });
+  }
+
+  /**
+   * Index variable reads in a formula
+   *
+   * @param formulaPosition - Position of the formula relative to the property value
+   */
+  private indexFormula(
+    obj: ParsedObject,
+    propertyName: string,
+    info: PropertyInfo,
+    formula: string,
+    formulaPosition: PositionInfo
+  ): void {
+    if (!formula.trim()) return;
+
+    let ast: ASTNode;
+    try {
+      ast = parseFormula(formula);
+    } catch {
+      // Syntax errors are reported by formula validation
+      return;
+    }
+
+    const visit = (node: ASTNode | undefined): void => {
+      if (!node) return;
+
+      switch (node.type) {
+        case 'function': {
+          const varArgs = getGlobalVarArguments(node.name.value);
+          node.args.forEach((arg, index) => {
+            const argKind = varArgs?.get(index);
+            if (arg.type === 'string' && argKind) {
+              const isPrefix = argKind === 'prefix';
+              this.addAccess(
+                obj,
+                propertyName,
+                info,
+                { name: arg.value, kind: 'read', isPrefix, source: 'formula', via: node.name.value },
+                toAbsolutePosition(arg, formulaPosition.startLine, formulaPosition.startColumn)
+              );
+            } else if (arg.type === 'functionStyle') {
+              arg.params.forEach(visit);
+            }
+          });
+          visit(node.body);
+          break;
+        }
+        case 'binaryOp':
+          visit(node.left);
+          visit(node.right);
+          break;
+        case 'unaryOp':
+          visit(node.operand);
+          break;
+        case 'global':
+        case 'mathFunction':
+          visit(node.argument);
+          break;
+      }
+    };
+
+    visit(ast);
+  }
+
+  private indexDynamicText(obj: ParsedObject, propertyName: string, info: PropertyInfo): void {
+    if (!containsDynamicText(info.value)) return;
+
+    for (const segment of parseDynamicText(info.value)) {
+      if (segment.type !== 'tag' || !globalVarTags.has(segment.tagName)) continue;
+
+      const arg = segment.arguments[0];
+      const name = arg?.value.trim();
+      if (!arg || !name) continue;
+
+      const nameStart = offsetToPosition(arg.value, arg.value.indexOf(name));
+      const position = toAbsolutePosition(createPositionInfo(nameStart, name), arg.startLine, arg.startColumn);
+      this.addAccess(
+        obj,
+        propertyName,
+        info,
+        { name, kind: 'read', isPrefix: false, source: 'dynamicText', via: segment.tagName },
+        position
+      );
+    }
+  }
+
+  private getGlobalVarName(param: ParsedParameter): string | undefined {
+    return 'globalVarName' in param ? param.globalVarName : undefined;
+  }
+
+  /**
+   * Get the raw text of a task parameter from the task string
+   */
+  private getParameterText(taskString: string, param: ParsedParameter): string {
+    const lines = taskString.split('\n');
+    let startOffset = param.startColumn;
+    let endOffset = param.endColumn;
+    for (let i = 0; i < param.endLine; i++) {
+      const lineLength = (lines[i]?.length ?? 0) + 1;
+      if (i < param.startLine) startOffset += lineLength;
+      endOffset += lineLength;
+    }
+    return taskString.substring(startOffset, endOffset);
+  }
+
+  /**
+   * Get the position of text at an offset within a task parameter, relative to the task string
+   */
+  private spanWithin(param: ParsedParameter, paramText: string, offset: number, text: string): PositionInfo {
+    const relative = createPositionInfo(offsetToPosition(paramText, offset), text);
+    return toAbsolutePosition(relative, param.startLine, param.startColumn);
+  }
+}
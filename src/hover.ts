@@ -0,0 +1,406 @@
+/**
+ * Hover documentation for mod text
+ *
+ * Maps a document position to the element under it and formats its documentation:
+ * - Object types and property fields (from mod-schema.json)
+ * - Enum values
+ * - Formula operators (from formula.json)
+ * - Task names and positional task parameters (from tasks.json)
+ * - Dynamic text tags and commands (from dynamic-text.json)
+ */
+
+import type {
+  DynamicTextCommand,
+  DynamicTextTag,
+  ModSchema,
+  ParsedObject,
+  ParsedParameter,
+  PositionInfo,
+  PropertyInfo,
+  SchemaData,
+  TaskMetadata,
+} from './types.js';
+import { ModParser } from './parser.js';
+import { PropertyValidator } from './property-validator.js';
+import { TaskValidator, isTaskStringProperty } from './task-validator.js';
+import { parseFormula, type ASTNode, type FunctionNameNode } from './formula-parser.js';
+import { getOperator, type FormulaOperator } from './formula-metadata.js';
+import { parseDynamicText, containsDynamicText } from './dynamic-text-parser.js';
+import { getDynamicTextCommand, getDynamicTextTag } from './dynamic-text-validator.js';
+import { findSchemaField } from './completion.js';
+import { containsPosition, getNameRange, getTypeRange, getValueRange, toAbsolutePosition } from './position-utils.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+
+export type HoverKind =
+  | 'objectType'
+  | 'property'
+  | 'enumValue'
+  | 'operator'
+  | 'task'
+  | 'taskParameter'
+  | 'dynamicTextTag'
+  | 'dynamicTextCommand';
+
+/**
+ * Documentation for the element under a position
+ */
+export interface HoverInfo {
+  kind: HoverKind;
+  contents: string; // Markdown
+  range: PositionInfo; // Absolute range of the element
+}
+
+/**
+ * Task string array that a positional parameter ends up in, plus its index in that array
+ */
+interface ParameterDestination {
+  array: 'strings' | 'floats' | 'bools' | 'tileCoords';
+  index: number;
+}
+
+function formatTaskDocs(task: TaskMetadata): string {
+  const parts = [`**${task.name}** (task)`];
+  if (task.aliases.length > 0) {
+    parts.push(`Aliases: ${task.aliases.map(alias => `\`${alias}\``).join(', ')}`);
+  }
+
+  for (const use of task.uses) {
+    const params = [
+      ...use.required.map(param => `- \`${param.name}\`: ${param.description}`),
+      ...use.optional.map(param => `- \`${param.name}\` (optional): ${param.description}`),
+    ];
+    parts.push([use.description, ...params].join('\n'));
+  }
+
+  return parts.join('\n\n');
+}
+
+function formatOperatorDocs(operator: FormulaOperator, usedName: string): string {
+  const parts = [`**${operator.name}** (${operator.category} operator)`];
+  if (usedName !== operator.name) {
+    parts.push(`\`${usedName}\` is an alias of \`${operator.name}\``);
+  }
+
+  for (const use of operator.uses) {
+    const args = (use.arguments ?? []).map(
+      arg => `- \`${arg.name}\` (${arg.type})${arg.description ? `: ${arg.description}` : ''}`
+    );
+    parts.push([use.description, ...args].join('\n'));
+    parts.push(`Returns ${use.returns}. Example: \`${use.example}\``);
+  }
+
+  return parts.join('\n\n');
+}
+
+function formatDynamicTextDocs(tag: DynamicTextTag | DynamicTextCommand, label: string): string {
+  const parts = [`**${tag.name}** (${label})`, tag.description];
+  if (tag.aliases.length > 0) {
+    parts.push(`Aliases: ${tag.aliases.map(alias => `\`${alias}\``).join(', ')}`);
+  }
+
+  const args = [
+    ...tag.required.map(arg => `- ${arg.name}: ${arg.description}`),
+    ...tag.optional.map(arg => `- ${arg.name} (optional): ${arg.description}`),
+  ];
+  if (args.length > 0) {
+    parts.push(args.join('\n'));
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Find the operator name node at a position within a formula
+ *
+ * @param formulaStart - Absolute position of the formula's first character
+ */
+function findOperatorName(
+  node: ASTNode | undefined,
+  formulaStart: { line: number; column: number },
+  line: number,
+  column: number
+): FunctionNameNode | undefined {
+  if (!node) return undefined;
+
+  const contains = (nameNode: FunctionNameNode) =>
+    containsPosition(toAbsolutePosition(nameNode, formulaStart.line, formulaStart.column), line, column);
+
+  switch (node.type) {
+    case 'function': {
+      if (contains(node.name)) return node.name;
+      for (const arg of node.args) {
+        if (arg.type !== 'functionStyle') continue;
+        for (const param of arg.params) {
+          const found = findOperatorName(param, formulaStart, line, column);
+          if (found) return found;
+        }
+      }
+      return findOperatorName(node.body, formulaStart, line, column);
+    }
+    case 'mathFunction':
+      if (contains(node.name)) return node.name;
+      return findOperatorName(node.argument, formulaStart, line, column);
+    case 'global':
+      return findOperatorName(node.argument, formulaStart, line, column);
+    case 'binaryOp':
+      return (
+        findOperatorName(node.left, formulaStart, line, column) ??
+        findOperatorName(node.right, formulaStart, line, column)
+      );
+    case 'unaryOp':
+      return findOperatorName(node.operand, formulaStart, line, column);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find the task string array each parameter ends up in (mirrors the task validator's destination inference)
+ */
+function getParameterDestinations(parameters: ParsedParameter[]): Array<ParameterDestination | null> {
+  const counts = { strings: 0, floats: 0, bools: 0, tileCoords: 0 };
+
+  return parameters.map(param => {
+    let array: ParameterDestination['array'];
+    switch (param.type) {
+      case 'string':
+      case 'globalVarSubstitution':
+        array = 'strings';
+        break;
+      case 'float':
+        array = 'floats';
+        break;
+      case 'bool':
+        array = 'bools';
+        break;
+      case 'tileCoord':
+        // @X only sets the x coordinate, and the TileCoord is added by the following @Y
+        if (param.source === '@X') {
+          return { array: 'tileCoords', index: counts.tileCoords };
+        }
+        array = 'tileCoords';
+        break;
+      default:
+        return null;
+    }
+    return { array, index: counts[array]++ };
+  });
+}
+
+/**
+ * Check whether a tasks.json parameter name ("strings[0]", "strings[1+]") covers a destination
+ */
+function parameterNameMatches(name: string, destination: ParameterDestination): boolean {
+  const match = name.match(/^(\w+)\[(\d+)(\+?)\]$/);
+  if (!match || match[1] !== destination.array) return false;
+  const index = Number(match[2]);
+  return match[3] === '+' ? destination.index >= index : destination.index === index;
+}
+
+export class HoverProvider {
+  private schema: ModSchema;
+  private typeAliases: Record<string, string>;
+  private functionalAliases: Record<string, string>;
+  private propertyValidator = new PropertyValidator();
+  private taskValidator = new TaskValidator();
+
+  constructor() {
+    const data = modSchemaData as SchemaData;
+    this.schema = data.schema;
+    this.typeAliases = data.typeAliases;
+    this.functionalAliases = data.functionalAliases;
+  }
+
+  private resolveType(typeName: string): string {
+    const normalized = this.functionalAliases[typeName] || typeName;
+    return this.typeAliases[normalized] || normalized;
+  }
+
+  /**
+   * Get documentation for the element at a position
+   *
+   * @param content - The document text
+   * @param line - Line (1-indexed)
+   * @param column - Column (0-indexed)
+   * @returns Hover information, or null if there's nothing documented at the position
+   */
+  getHover(content: string, line: number, column: number): HoverInfo | null {
+    const { objects } = new ModParser(content, '').parse();
+    const obj = objects.find(candidate => candidate.startLine <= line && line <= candidate.endLine);
+    if (!obj) return null;
+
+    if (containsPosition(getTypeRange(obj), line, column)) {
+      return this.getObjectTypeHover(obj);
+    }
+
+    for (const { name, info } of obj.assignments) {
+      const propertyName = name.replace(/^!/, '').replace(/\++$/, '');
+      const nameRange = getNameRange(info);
+      if (containsPosition(nameRange, line, column)) {
+        return this.getPropertyHover(obj, propertyName, nameRange);
+      }
+      if (containsPosition(getValueRange(info), line, column)) {
+        return this.getValueHover(content, obj, propertyName, info, line, column);
+      }
+    }
+
+    return null;
+  }
+
+  private getObjectTypeHover(obj: ParsedObject): HoverInfo | null {
+    const resolvedType = this.resolveType(obj.type);
+    const classSchema = this.schema[resolvedType];
+    if (!classSchema) return null;
+
+    const parts = [`**[${obj.type}]** (${classSchema.category})`];
+    if (resolvedType !== obj.type) {
+      parts.push(`Alias of \`${resolvedType}\``);
+    }
+    parts.push(`${classSchema.fields.length} field(s)${classSchema.supportsCloneFrom ? ', supports cloneFrom' : ''}`);
+
+    return { kind: 'objectType', contents: parts.join('\n\n'), range: getTypeRange(obj) };
+  }
+
+  private getPropertyHover(obj: ParsedObject, propertyName: string, range: PositionInfo): HoverInfo | null {
+    const classSchema = this.schema[this.resolveType(obj.type)];
+    const field = classSchema ? findSchemaField(classSchema, propertyName) : undefined;
+    if (!field) return null;
+
+    const parts = [`**${propertyName}**: \`${field.type}\``, `Field of ${obj.type} (C# \`${field.csType}\`)`];
+    if (field.virtual) {
+      parts.push('Virtual property: handled specially when the object is loaded');
+    }
+
+    return { kind: 'property', contents: parts.join('\n\n'), range };
+  }
+
+  private getValueHover(
+    content: string,
+    obj: ParsedObject,
+    propertyName: string,
+    info: PropertyInfo,
+    line: number,
+    column: number
+  ): HoverInfo | null {
+    const resolvedType = this.resolveType(obj.type);
+    const actorValue = obj.properties.get('actorValue')?.value.trim();
+    if (isTaskStringProperty(resolvedType, propertyName, actorValue)) {
+      return this.getTaskHover(info, line, column);
+    }
+
+    const classSchema = this.schema[resolvedType];
+    const field = classSchema ? findSchemaField(classSchema, propertyName) : undefined;
+    if (!field) return null;
+
+    if (field.type === 'Formula' || field.type === 'List<Formula>') {
+      return this.getFormulaHover(info, line, column);
+    }
+
+    if ((field.type === 'string' || field.type === 'List<string>') && containsDynamicText(info.value)) {
+      return this.getDynamicTextHover(info, line, column);
+    }
+
+    const enumValues = this.propertyValidator.getEnumValues(field.type, resolvedType);
+    if (enumValues) {
+      // Find the word under the position (enum lists are comma-separated)
+      const lineText = content.split('\n')[line - 1] ?? '';
+      for (const match of lineText.matchAll(/\w+/g)) {
+        const endColumn = match.index + match[0].length;
+        const range = { startLine: line, startColumn: match.index, endLine: line, endColumn };
+        const value = enumValues[match[0]];
+        if (value !== undefined && containsPosition(range, line, column)) {
+          const contents = `**${match[0]}**: ${field.type} value \`${value}\``;
+          return { kind: 'enumValue', contents, range };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private getTaskHover(info: PropertyInfo, line: number, column: number): HoverInfo | null {
+    const parsed = this.taskValidator.parseTaskString(info.value);
+    const canonicalName = this.taskValidator.resolveTaskName(parsed.taskName);
+    const task = this.taskValidator.getTasks().find(candidate => candidate.name === canonicalName);
+    if (!task) return null;
+
+    const toRange = (pos: PositionInfo) => toAbsolutePosition(pos, info.valueStartLine, info.valueStartColumn);
+
+    const nameRange = toRange(parsed.taskNamePosition);
+    if (containsPosition(nameRange, line, column)) {
+      return { kind: 'task', contents: formatTaskDocs(task), range: nameRange };
+    }
+
+    const destinations = getParameterDestinations(parsed.parameters);
+    for (const [index, param] of parsed.parameters.entries()) {
+      const range = toRange(param);
+      const destination = destinations[index];
+      if (!destination || !containsPosition(range, line, column)) continue;
+
+      const paramName = `${destination.array}[${destination.index}]`;
+      const descriptions = new Set<string>();
+      for (const use of task.uses) {
+        for (const taskParam of [...use.required, ...use.optional]) {
+          if (parameterNameMatches(taskParam.name, destination)) {
+            descriptions.add(taskParam.description);
+          }
+        }
+      }
+
+      const details =
+        descriptions.size > 0
+          ? Array.from(descriptions, description => `- ${description}`).join('\n')
+          : `No use of ${task.name} takes \`${paramName}\``;
+      const contents = `**${task.name}** parameter ${index + 1}: \`${paramName}\`\n\n${details}`;
+      return { kind: 'taskParameter', contents, range };
+    }
+
+    return null;
+  }
+
+  private getFormulaHover(info: PropertyInfo, line: number, column: number): HoverInfo | null {
+    let ast: ASTNode;
+    try {
+      ast = parseFormula(info.value);
+    } catch {
+      // Syntax errors are reported by formula validation
+      return null;
+    }
+
+    const formulaStart = { line: info.valueStartLine, column: info.valueStartColumn };
+    const nameNode = findOperatorName(ast, formulaStart, line, column);
+    const operator = nameNode ? getOperator(nameNode.value) : undefined;
+    if (!nameNode || !operator) return null;
+
+    return {
+      kind: 'operator',
+      contents: formatOperatorDocs(operator, nameNode.value),
+      range: toAbsolutePosition(nameNode, formulaStart.line, formulaStart.column),
+    };
+  }
+
+  private getDynamicTextHover(info: PropertyInfo, line: number, column: number): HoverInfo | null {
+    const toRange = (pos: PositionInfo) => toAbsolutePosition(pos, info.valueStartLine, info.valueStartColumn);
+
+    for (const segment of parseDynamicText(info.value)) {
+      if (segment.type !== 'tag' || !containsPosition(toRange(segment.position), line, column)) continue;
+
+      const tag = getDynamicTextTag(segment.tagName);
+      if (!tag) return null;
+
+      // The first argument of a <cmd=> tag names the command
+      const commandArg = segment.arguments[0];
+      if (tag.name === 'command' && commandArg && containsPosition(toRange(commandArg), line, column)) {
+        const command = getDynamicTextCommand(commandArg.value);
+        if (!command) return null;
+        const contents = formatDynamicTextDocs(command, 'command');
+        return { kind: 'dynamicTextCommand', contents, range: toRange(commandArg) };
+      }
+
+      const contents = formatDynamicTextDocs(tag, 'dynamic text tag');
+      return { kind: 'dynamicTextTag', contents, range: toRange(segment.position) };
+    }
+
+    return null;
+  }
+}
@@ -6,6 +6,27 @@
 export { ModValidator } from './validator.js';
 export { ModParser } from './parser.js';
 export { validateFormula } from './formula-validator.js';
+export { evaluateAST, evaluateFormula } from './formula-evaluator.js';
+export type { EvaluationResult, FormulaContext, NeedsContext } from './formula-evaluator.js';
 export { PropertyValidator } from './property-validator.js';
+export { ReferenceIndex } from './reference-index.js';
+export { InheritanceResolver } from './inheritance-resolver.js';
+export { GlobalVarIndex } from './global-var-index.js';
+export { CompletionProvider } from './completion.js';
+export { HoverProvider } from './hover.js';
+export type { IdDefinition, IdReference, ReferenceKind } from './reference-index.js';
+export type { InheritanceStatus, ResolvedInheritance } from './inheritance-resolver.js';
+export type { GlobalVarAccess, GlobalVarAccessKind } from './global-var-index.js';
+export type { CompletionItem, CompletionItemKind, CompletionList } from './completion.js';
+export type { HoverInfo, HoverKind } from './hover.js';
+export { RULES, RULE_IDS, isRuleId } from './rules.js';
+export type { RuleId } from './rules.js';
+export { CONFIG_FILE_NAME, parseConfig, globToRegExp, getRuleSettings, applyConfig } from './config.js';
+export type { RuleSetting, RuleSettings, ConfigOverride, ModValidatorConfig } from './config.js';
+export { parseSuppressions, applySuppressions, getUnusedSuppressionMessages } from './suppressions.js';
+export type { Suppression } from './suppressions.js';
+export { BaselineMatcher, createBaseline, getFingerprint, parseBaseline } from './baseline.js';
+export type { Baseline, BaselineEntry, BaselineFingerprint } from './baseline.js';
 export * from './types.js';
+export { applyCorrections } from './position-utils.js';
 export { levenshteinDistance, findSimilar, MAX_EDIT_DISTANCE } from './string-similarity.js';
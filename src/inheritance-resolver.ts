@@ -0,0 +1,167 @@
+/**
+ * cloneFrom inheritance resolution
+ *
+ * A definition with cloneFrom starts as a copy of its base definition and then
+ * applies its own properties on top. Cloning from the object's own ID extends an
+ * existing definition of that ID instead (usually one from the base game).
+ */
+
+import type { ModSchema, ParsedObject, PropertyAssignment, PropertyInfo, SchemaData } from './types.js';
+import { ReferenceIndex } from './reference-index.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+
+/**
+ * Outcome of following an object's cloneFrom chain
+ * - complete: every base was found in the loaded files
+ * - baseGame: the chain ends at a base game definition, whose properties aren't known
+ * - missingBase: a cloneFrom ID couldn't be resolved
+ * - cycle: the chain loops back on itself
+ */
+export type InheritanceStatus = 'complete' | 'baseGame' | 'missingBase' | 'cycle';
+
+export interface ResolvedInheritance {
+  object: ParsedObject;
+  chain: ParsedObject[]; // The object first, followed by each base it inherits from
+  assignments: PropertyAssignment[]; // Effective assignments, from the furthest base to the object itself
+  properties: Map<string, PropertyInfo>; // Last effective assignment of each property (the one that takes effect)
+  status: InheritanceStatus;
+  missingBaseId?: string; // The cloneFrom ID that couldn't be resolved (baseGame, missingBase)
+  cycle?: ParsedObject[]; // The objects forming the loop, in chain order (cycle)
+}
+
+export class InheritanceResolver {
+  private schema: ModSchema;
+  private typeAliases: Record<string, string>;
+  private functionalAliases: Record<string, string>;
+  private index: ReferenceIndex;
+  private resolved: Map<ParsedObject, ResolvedInheritance> = new Map();
+
+  constructor(objects: ParsedObject[], index: ReferenceIndex = new ReferenceIndex(objects)) {
+    const data = modSchemaData as SchemaData;
+    this.schema = data.schema;
+    this.typeAliases = data.typeAliases;
+    this.functionalAliases = data.functionalAliases;
+    this.index = index;
+  }
+
+  /**
+   * Check whether an object is a definition whose cloneFrom is honoured by the game
+   */
+  supportsCloneFrom(obj: ParsedObject): boolean {
+    const classSchema = this.schema[this.typeAliases[obj.type] || obj.type];
+    return classSchema?.category === 'definition' && classSchema.supportsCloneFrom === true;
+  }
+
+  /**
+   * Check whether an object clones from its own ID (extending an existing definition)
+   */
+  isSelfClone(obj: ParsedObject): boolean {
+    const id = obj.properties.get('ID')?.value.trim();
+    return !!id && this.getCloneFrom(obj) === id;
+  }
+
+  /**
+   * Follow an object's cloneFrom chain and build its effective properties
+   */
+  resolve(obj: ParsedObject): ResolvedInheritance {
+    const cached = this.resolved.get(obj);
+    if (cached) {
+      return cached;
+    }
+
+    const chain: ParsedObject[] = [obj];
+    const result: ResolvedInheritance = {
+      object: obj,
+      chain,
+      assignments: [],
+      properties: new Map(),
+      status: 'complete',
+    };
+
+    let current = obj;
+    let cloneFrom: string | undefined;
+    while ((cloneFrom = this.getCloneFrom(current))) {
+      const base = this.findBase(current, cloneFrom);
+      if (!base) {
+        const type = this.functionalAliases[current.type] || current.type;
+        result.status = this.index.isBaseGameId(type, cloneFrom) ? 'baseGame' : 'missingBase';
+        result.missingBaseId = cloneFrom;
+        break;
+      }
+
+      const loopStart = chain.indexOf(base);
+      if (loopStart !== -1) {
+        result.status = 'cycle';
+        result.cycle = chain.slice(loopStart);
+        break;
+      }
+
+      chain.push(base);
+      current = base;
+    }
+
+    result.assignments = this.mergeAssignments(chain);
+    for (const { name, info } of result.assignments) {
+      result.properties.set(name, info);
+    }
+
+    this.resolved.set(obj, result);
+    return result;
+  }
+
+  /**
+   * Apply the assignments of each object in a chain, starting from the furthest base
+   * List fields append to inherited values unless assigned with the ! prefix, which overwrites them.
+   * Other properties assigned by a closer object replace every inherited assignment of the property.
+   */
+  private mergeAssignments(chain: ParsedObject[]): PropertyAssignment[] {
+    let merged: PropertyAssignment[] = [];
+    const nameOf = (assignment: PropertyAssignment) => assignment.name.replace(/^!/, '');
+
+    for (const link of [...chain].reverse()) {
+      const classSchema = this.schema[this.typeAliases[link.type] || link.type];
+      const overridden = new Set<string>();
+
+      for (const assignment of link.assignments) {
+        const name = nameOf(assignment);
+        const field = classSchema?.fields.find(f => f.name === name.replace(/\++$/, ''));
+        const replacesInherited = field?.type.startsWith('List<')
+          ? assignment.name.startsWith('!')
+          : !overridden.has(name);
+
+        if (replacesInherited) {
+          merged = merged.filter(previous => nameOf(previous) !== name);
+        }
+        overridden.add(name);
+        merged.push(assignment);
+      }
+    }
+
+    return merged;
+  }
+
+  private getCloneFrom(obj: ParsedObject): string | undefined {
+    if (!this.supportsCloneFrom(obj)) {
+      return undefined;
+    }
+    return obj.properties.get('cloneFrom')?.value.trim() || undefined;
+  }
+
+  /**
+   * Find the definition an object clones from
+   * Prefers an original definition of the ID over extensions (self-clones) of it,
+   * since an extension's own base is the original.
+   */
+  private findBase(obj: ParsedObject, cloneFrom: string): ParsedObject | undefined {
+    const type = this.functionalAliases[obj.type] || obj.type;
+    const candidates = this.index.getDefinitions(type, cloneFrom).filter(def => def.object !== obj);
+
+    const original = candidates.find(def => !this.isSelfClone(def.object));
+    if (original) {
+      return original.object;
+    }
+
+    // A self-clone can only extend an original definition
+    return this.isSelfClone(obj) ? undefined : candidates[0]?.object;
+  }
+}
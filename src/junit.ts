@@ -0,0 +1,122 @@
+/**
+ * JUnit XML output for mod validator
+ * Lets test dashboards track mod health: each file is a test suite and each object a test case,
+ * which fails if it has error messages
+ */
+
+import type { ParsedObject, ValidationMessage } from './types.js';
+
+export interface JUnitFile {
+  filePath: string;
+  objects: ParsedObject[];
+  messages: ValidationMessage[];
+  error?: string | undefined; // Set if the file couldn't be read
+}
+
+interface TestCase {
+  name: string;
+  messages: ValidationMessage[];
+}
+
+/**
+ * Name of the test case for messages that aren't about a specific object
+ */
+const FILE_TEST_CASE = '(file)';
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function formatMessage(filePath: string, msg: ValidationMessage): string {
+  // Columns are 1-indexed, like the GCC format
+  const column = msg.range ? `:${msg.range.startColumn + 1}` : '';
+  const location = msg.line ? `${filePath}:${msg.line}${column}` : filePath;
+  const context = msg.context ? `\n  ${msg.context}` : '';
+  return `${location}: ${msg.severity}: ${msg.message} [${msg.ruleId}]${context}`;
+}
+
+/**
+ * Group a file's messages into one test case per object, plus one for messages outside any object
+ */
+function getTestCases(file: JUnitFile): TestCase[] {
+  const testCases = file.objects.map(obj => {
+    const id = obj.properties.get('ID')?.value.trim();
+    return { name: `[${obj.type}] ${id || `(line ${obj.startLine})`}`, messages: [] as ValidationMessage[] };
+  });
+  const fileTestCase: TestCase = { name: FILE_TEST_CASE, messages: [] };
+
+  for (const msg of file.messages) {
+    const index = file.objects.findIndex(obj => msg.line >= obj.startLine && msg.line <= obj.endLine);
+    (testCases[index] ?? fileTestCase).messages.push(msg);
+  }
+
+  return fileTestCase.messages.length > 0 ? [fileTestCase, ...testCases] : testCases;
+}
+
+function renderTestCase(filePath: string, testCase: TestCase): string {
+  const errors = testCase.messages.filter(msg => msg.severity === 'error');
+  const others = testCase.messages.filter(msg => msg.severity !== 'error');
+  const attributes = `name="${escapeXml(testCase.name)}" classname="${escapeXml(filePath)}"`;
+  if (testCase.messages.length === 0) {
+    return `    <testcase ${attributes}/>`;
+  }
+
+  const lines = [`    <testcase ${attributes}>`];
+  if (errors.length > 0) {
+    const message = errors.length === 1 ? (errors[0]?.message ?? '') : `${errors.length} errors`;
+    const details = errors.map(msg => formatMessage(filePath, msg)).join('\n');
+    const type = [...new Set(errors.map(msg => msg.ruleId))].join(' ');
+    lines.push(
+      `      <failure message="${escapeXml(message)}" type="${escapeXml(type)}">${escapeXml(details)}</failure>`
+    );
+  }
+  if (others.length > 0) {
+    const output = others.map(msg => formatMessage(filePath, msg)).join('\n');
+    lines.push(`      <system-out>${escapeXml(output)}</system-out>`);
+  }
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Build a JUnit XML report from each file's objects and messages
+ */
+export function toJUnitXml(files: JUnitFile[]): string {
+  let totalTests = 0;
+  let totalFailures = 0;
+  let totalErrors = 0;
+
+  const suites = files.map(file => {
+    const name = escapeXml(file.filePath);
+
+    // A file that couldn't be read is a suite with one errored test case
+    if (file.error !== undefined) {
+      totalTests++;
+      totalErrors++;
+      return [
+        `  <testsuite name="${name}" tests="1" failures="0" errors="1">`,
+        `    <testcase name="${FILE_TEST_CASE}" classname="${name}">`,
+        `      <error message="${escapeXml(file.error)}"/>`,
+        '    </testcase>',
+        '  </testsuite>',
+      ].join('\n');
+    }
+
+    const testCases = getTestCases(file);
+    const failures = testCases.filter(testCase => testCase.messages.some(msg => msg.severity === 'error')).length;
+    totalTests += testCases.length;
+    totalFailures += failures;
+    return [
+      `  <testsuite name="${name}" tests="${testCases.length}" failures="${failures}" errors="0">`,
+      ...testCases.map(testCase => renderTestCase(file.filePath, testCase)),
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mod-validator" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">`,
+    ...suites,
+    '</testsuites>',
+  ].join('\n');
+}
@@ -0,0 +1,505 @@
+#!/usr/bin/env node
+
+/**
+ * Language Server Protocol server for mod validator
+ * Communicates over stdio, so any LSP-capable editor can run it as a local process
+ */
+
+import {
+  createConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  TextDocuments,
+  TextDocumentSyncKind,
+  DiagnosticSeverity,
+  DidChangeWatchedFilesNotification,
+  CodeActionKind,
+  CompletionItemKind,
+  FileChangeType,
+  MarkupKind,
+  type CodeAction,
+  type CompletionItem,
+  type Connection,
+  type Diagnostic,
+  type DiagnosticRelatedInformation,
+  type Location,
+  type Range,
+} from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ModValidator } from './validator.js';
+import { CompletionProvider, type CompletionList, type CompletionItemKind as ModCompletionKind } from './completion.js';
+import { HoverProvider } from './hover.js';
+import type { Correction, PositionInfo, ValidationMessage, ValidationSeverity } from './types.js';
+import type { IdDefinition } from './reference-index.js';
+import { CONFIG_FILE_NAME, parseConfig } from './config.js';
+import { getValueRange } from './position-utils.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * Data attached to each diagnostic so code actions can be built from it later
+ */
+interface DiagnosticData {
+  suggestion?: string | undefined;
+  suggestionIsAction?: boolean | undefined;
+  corrections: Correction[];
+}
+
+/**
+ * How long to wait for more edits before revalidating changed documents
+ */
+const CHANGE_DEBOUNCE_MS = 100;
+
+const SEVERITY_MAP: Record<ValidationSeverity, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  hint: DiagnosticSeverity.Hint,
+  info: DiagnosticSeverity.Information,
+};
+
+const COMPLETION_KIND_MAP: Record<ModCompletionKind, CompletionItemKind> = {
+  objectType: CompletionItemKind.Class,
+  property: CompletionItemKind.Field,
+  value: CompletionItemKind.EnumMember,
+  operator: CompletionItemKind.Operator,
+  task: CompletionItemKind.Function,
+};
+
+/**
+ * Convert a file path used by the validator to a document URI
+ */
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).toString();
+}
+
+/**
+ * Convert a document URI to the file path used by the validator
+ * Non-file URIs (e.g., unsaved editors) are used as-is
+ */
+export function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * Convert a validator range (1-indexed lines) to an LSP range (0-indexed lines)
+ */
+function toLspRange(range: PositionInfo): Range {
+  return {
+    start: { line: range.startLine - 1, character: range.startColumn },
+    end: { line: range.endLine - 1, character: range.endColumn },
+  };
+}
+
+/**
+ * Convert a position in a file (1-indexed lines) to an LSP location
+ */
+function toLocation(location: PositionInfo & { filePath: string }, toUri: (filePath: string) => string): Location {
+  return { uri: toUri(location.filePath), range: toLspRange(location) };
+}
+
+/**
+ * Get the location of a definition's ID value
+ */
+function definitionLocation(definition: IdDefinition, toUri: (filePath: string) => string): Location {
+  return toLocation({ filePath: definition.idProperty.filePath, ...getValueRange(definition.idProperty) }, toUri);
+}
+
+/**
+ * Convert a validation message to an LSP diagnostic
+ *
+ * @param toUri - Converts file paths of related locations to document URIs
+ */
+export function toDiagnostic(msg: ValidationMessage, toUri: (filePath: string) => string = pathToUri): Diagnostic {
+  const range = msg.range ?? { startLine: msg.line, startColumn: 0, endLine: msg.line, endColumn: 0 };
+  const diagnostic: Diagnostic = {
+    range: toLspRange(range),
+    severity: SEVERITY_MAP[msg.severity],
+    source: 'mod-validator',
+    code: msg.ruleId,
+    message: msg.context ? `${msg.message}\n${msg.context}` : msg.message,
+  };
+
+  if (msg.relatedLocations && msg.relatedLocations.length > 0) {
+    diagnostic.relatedInformation = msg.relatedLocations.map((related): DiagnosticRelatedInformation => ({
+      location: toLocation(related, toUri),
+      message: related.message,
+    }));
+  }
+
+  // Navigation-only corrections (🎯) replace text with itself, so they aren't useful as fixes
+  if (msg.corrections && msg.corrections.length > 0 && msg.correctionIcon !== '🎯') {
+    const data: DiagnosticData = {
+      suggestion: msg.suggestion,
+      suggestionIsAction: msg.suggestionIsAction,
+      corrections: msg.corrections,
+    };
+    diagnostic.data = data;
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Build quick-fix code actions from the corrections attached to diagnostics
+ *
+ * @param toUri - Converts file paths of corrections to document URIs
+ */
+export function toCodeActions(
+  diagnostics: Diagnostic[],
+  toUri: (filePath: string) => string = pathToUri
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+
+  for (const diagnostic of diagnostics) {
+    const data = diagnostic.data as DiagnosticData | undefined;
+    if (!data?.corrections) continue;
+
+    // An action suggestion applies only its first correction (like the validator page)
+    const corrections = data.suggestionIsAction ? data.corrections.slice(0, 1) : data.corrections;
+
+    for (const correction of corrections) {
+      const title =
+        data.suggestionIsAction && data.suggestion
+          ? data.suggestion
+          : `Change to '${correction.displayText ?? correction.replacementText}'`;
+
+      actions.push({
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: corrections.length === 1,
+        edit: {
+          changes: {
+            [toUri(correction.filePath)]: [{ range: toLspRange(correction), newText: correction.replacementText }],
+          },
+        },
+      });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Convert completion results to LSP completion items that replace the partial word before the cursor
+ */
+export function toCompletionItems(list: CompletionList): CompletionItem[] {
+  return list.items.map(item => {
+    const completion: CompletionItem = {
+      label: item.label,
+      kind: COMPLETION_KIND_MAP[item.kind],
+      textEdit: { range: toLspRange(list.range), newText: item.label },
+    };
+    if (item.detail) completion.detail = item.detail;
+    if (item.documentation) completion.documentation = item.documentation;
+    return completion;
+  });
+}
+
+class ModValidatorLanguageServer {
+  private validator = new ModValidator();
+  private completionProvider = new CompletionProvider();
+  private hoverProvider = new HoverProvider();
+  private documents = new TextDocuments(TextDocument);
+  private fileMessages = new Map<string, ValidationMessage[]>(); // Per-file messages, by file path
+  private uris = new Map<string, string>(); // URIs the client used for each file path
+  private publishedUris = new Set<string>(); // Documents that currently have diagnostics in the client
+  private changedUris = new Set<string>(); // Documents edited since they were last validated
+  private changeTimer: ReturnType<typeof setTimeout> | undefined;
+  private workspaceRoots: string[] = [];
+  private canWatchFiles = false;
+
+  constructor(private connection: Connection) {}
+
+  /**
+   * Convert a document URI from the client to a file path, remembering the URI
+   * Converting the path back wouldn't give the same URI for non-file documents (or differently encoded ones)
+   */
+  private toFilePath(uri: string): string {
+    const filePath = uriToPath(uri);
+    this.uris.set(filePath, uri);
+    return filePath;
+  }
+
+  /**
+   * Get the URI the client knows a file by
+   */
+  private toUri(filePath: string): string {
+    return this.uris.get(filePath) ?? pathToUri(filePath);
+  }
+
+  /**
+   * Validate a file's content and store its per-file messages
+   */
+  private validateContent(filePath: string, content: string): void {
+    const result = this.validator.validate(content, filePath);
+    this.fileMessages.set(filePath, [...result.errors, ...result.warnings, ...result.hints, ...result.info]);
+  }
+
+  /**
+   * Validate a file from disk, unless it's open (the editor's content takes precedence)
+   */
+  private validateFromDisk(filePath: string): void {
+    if (this.documents.get(this.toUri(filePath))) {
+      return;
+    }
+
+    try {
+      this.validateContent(filePath, fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      this.forgetFile(filePath);
+    }
+  }
+
+  /**
+   * Drop a file from the cross-file cache
+   */
+  private forgetFile(filePath: string): void {
+    this.validator.removeFromCache(filePath);
+    this.fileMessages.delete(filePath);
+    this.uris.delete(filePath);
+  }
+
+  /**
+   * Find mod files in a directory
+   */
+  private findFiles(dirPath: string): string[] {
+    const files: string[] = [];
+
+    try {
+      for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          files.push(...this.findFiles(fullPath));
+        } else if (entry.isFile() && entry.name.endsWith('.txt')) {
+          files.push(fullPath);
+        }
+      }
+    } catch {
+      // Unreadable directories are skipped
+    }
+
+    return files;
+  }
+
+  /**
+   * Load the project config from the first workspace folder that has one
+   * Override globs match file paths relative to that folder
+   */
+  private loadConfig(): void {
+    const configDir = this.workspaceRoots.find(root => fs.existsSync(path.join(root, CONFIG_FILE_NAME)));
+    if (!configDir) {
+      this.validator.setConfig(null);
+      return;
+    }
+
+    const configPath = path.join(configDir, CONFIG_FILE_NAME);
+    try {
+      const config = parseConfig(fs.readFileSync(configPath, 'utf-8'));
+      this.validator.setConfig(config, filePath => path.relative(configDir, filePath).split(path.sep).join('/'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      void this.connection.window.showErrorMessage(`Failed to load ${configPath}: ${errorMessage}`);
+      this.validator.setConfig(null);
+    }
+  }
+
+  /**
+   * Validate every mod file in the workspace, plus open files outside it
+   */
+  private validateWorkspace(): void {
+    for (const root of this.workspaceRoots) {
+      for (const filePath of this.findFiles(root)) {
+        this.validateFromDisk(filePath);
+      }
+    }
+    for (const document of this.documents.all()) {
+      this.validateContent(this.toFilePath(document.uri), document.getText());
+    }
+  }
+
+  /**
+   * Publish diagnostics for every file with messages, including cross-file messages
+   * Cross-file messages can change in any file when one file changes, so all files are republished
+   */
+  private publishAll(): void {
+    const messagesByPath = new Map<string, ValidationMessage[]>();
+    for (const [filePath, messages] of this.fileMessages) {
+      messagesByPath.set(filePath, [...messages]);
+    }
+    for (const msg of this.validator.getCrossFileValidationMessages()) {
+      const messages = messagesByPath.get(msg.filePath) ?? [];
+      messages.push(msg);
+      messagesByPath.set(msg.filePath, messages);
+    }
+
+    const toUri = (filePath: string) => this.toUri(filePath);
+    const uris = new Map(Array.from(messagesByPath.keys(), filePath => [toUri(filePath), filePath]));
+
+    // Clear documents that no longer have any messages
+    for (const uri of this.publishedUris) {
+      if (!uris.has(uri)) {
+        void this.connection.sendDiagnostics({ uri, diagnostics: [] });
+      }
+    }
+
+    this.publishedUris = new Set(uris.keys());
+    for (const [uri, filePath] of uris) {
+      const diagnostics = (messagesByPath.get(filePath) ?? []).map(msg => toDiagnostic(msg, toUri));
+      void this.connection.sendDiagnostics({ uri, diagnostics });
+    }
+  }
+
+  /**
+   * Validate the documents edited since the last call, then republish
+   */
+  private validateChanged(): void {
+    const changed = this.changedUris;
+    this.changedUris = new Set();
+
+    for (const uri of changed) {
+      // Documents closed in the meantime were handled when they closed
+      const document = this.documents.get(uri);
+      if (document) {
+        this.validateContent(this.toFilePath(uri), document.getText());
+      }
+    }
+    this.publishAll();
+  }
+
+  /**
+   * Start listening for requests on the connection
+   */
+  listen(): void {
+    const { connection, documents } = this;
+    const toUri = (filePath: string) => this.toUri(filePath);
+
+    connection.onInitialize(params => {
+      const folders = params.workspaceFolders ?? [];
+      this.workspaceRoots = folders.map(folder => uriToPath(folder.uri));
+      if (this.workspaceRoots.length === 0 && params.rootUri) {
+        this.workspaceRoots = [uriToPath(params.rootUri)];
+      }
+      this.canWatchFiles = !!params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+
+      return {
+        capabilities: {
+          textDocumentSync: TextDocumentSyncKind.Incremental,
+          codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+          completionProvider: { triggerCharacters: ['[', '=', ':', ','] },
+          hoverProvider: true,
+          definitionProvider: true,
+          referencesProvider: true,
+        },
+      };
+    });
+
+    connection.onInitialized(() => {
+      // Files that aren't open still affect cross-file checks, so follow changes on disk
+      if (this.canWatchFiles) {
+        void connection.client.register(DidChangeWatchedFilesNotification.type, {
+          watchers: [{ globPattern: '**/*.txt' }, { globPattern: `**/${CONFIG_FILE_NAME}` }],
+        });
+      }
+
+      // Load every mod file in the workspace so cross-file checks see all definitions
+      this.loadConfig();
+      this.validateWorkspace();
+      this.publishAll();
+    });
+
+    // Every keystroke changes the content, so wait for a pause before revalidating
+    documents.onDidChangeContent(change => {
+      this.changedUris.add(change.document.uri);
+      clearTimeout(this.changeTimer);
+      this.changeTimer = setTimeout(() => this.validateChanged(), CHANGE_DEBOUNCE_MS);
+    });
+
+    documents.onDidClose(event => {
+      // Unsaved edits are discarded, so fall back to the file on disk (if any)
+      const filePath = this.toFilePath(event.document.uri);
+      if (fs.existsSync(filePath)) {
+        this.validateFromDisk(filePath);
+      } else {
+        this.forgetFile(filePath);
+      }
+      this.publishAll();
+    });
+
+    connection.onDidChangeWatchedFiles(params => {
+      // A config change can affect every file's messages
+      if (params.changes.some(change => path.basename(uriToPath(change.uri)) === CONFIG_FILE_NAME)) {
+        this.loadConfig();
+        this.validateWorkspace();
+        this.publishAll();
+        return;
+      }
+
+      for (const change of params.changes) {
+        const filePath = this.toFilePath(change.uri);
+        if (change.type === FileChangeType.Deleted) {
+          this.forgetFile(filePath);
+        } else if (filePath.endsWith('.txt')) {
+          this.validateFromDisk(filePath);
+        }
+      }
+      this.publishAll();
+    });
+
+    connection.onCodeAction(params => toCodeActions(params.context.diagnostics, toUri));
+
+    connection.onCompletion(params => {
+      const document = documents.get(params.textDocument.uri);
+      if (!document) return [];
+
+      const { line, character } = params.position;
+      return toCompletionItems(this.completionProvider.getCompletions(document.getText(), line + 1, character));
+    });
+
+    connection.onDefinition(params => {
+      const { line, character } = params.position;
+      const filePath = uriToPath(params.textDocument.uri);
+      return this.validator
+        .findDefinitions(filePath, line + 1, character)
+        .map(definition => definitionLocation(definition, toUri));
+    });
+
+    connection.onReferences(params => {
+      const { line, character } = params.position;
+      const filePath = uriToPath(params.textDocument.uri);
+      const references = this.validator
+        .findReferences(filePath, line + 1, character)
+        .map(reference => toLocation(reference, toUri));
+      if (!params.context.includeDeclaration) {
+        return references;
+      }
+      const definitions = this.validator
+        .findDefinitions(filePath, line + 1, character)
+        .map(definition => definitionLocation(definition, toUri));
+      return [...definitions, ...references];
+    });
+
+    connection.onHover(params => {
+      const document = documents.get(params.textDocument.uri);
+      if (!document) return null;
+
+      const { line, character } = params.position;
+      const hover = this.hoverProvider.getHover(document.getText(), line + 1, character);
+      if (!hover) return null;
+
+      return { contents: { kind: MarkupKind.Markdown, value: hover.contents }, range: toLspRange(hover.range) };
+    });
+
+    documents.listen(connection);
+    connection.listen();
+  }
+}
+
+// Run the server if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const connection = createConnection(new StreamMessageReader(process.stdin), new StreamMessageWriter(process.stdout));
+  new ModValidatorLanguageServer(connection).listen();
+}
+
+export { ModValidatorLanguageServer };
@@ -0,0 +1,259 @@
+/**
+ * Formula playground page
+ * Parses, validates and evaluates a formula as it's typed, against editable caster/target/global values
+ */
+
+import {
+  initTheme,
+  escapeHtml,
+  getElementById,
+  getElementByIdAs,
+  querySelectorAs,
+  assertInstanceOf,
+} from './shared-utils.js';
+import { parseFormula, validateAST, type ASTNode } from '../formula-parser.js';
+import { getASTTree, type ASTTreeNode } from '../formula-ast-tree.js';
+import { evaluateAST, type FormulaContext } from '../formula-evaluator.js';
+
+type ValueKind = 'caster' | 'target' | 'global' | 'item' | 'formulaGlobal';
+
+interface ValueRow {
+  kind: ValueKind;
+  name: string;
+  value: string;
+}
+
+const VALUE_KINDS: { kind: ValueKind; label: string }[] = [
+  { kind: 'caster', label: 'Caster (c:)' },
+  { kind: 'target', label: 'Target (t:)' },
+  { kind: 'global', label: 'Global variable (g:)' },
+  { kind: 'item', label: 'Item count (item:)' },
+  { kind: 'formulaGlobal', label: 'Global formula (d:)' },
+];
+
+const DEFAULT_FORMULA = '12 + c:MagAtk * 0.4 + c:skill_Fire * 0.25';
+
+const DEFAULT_ROWS: ValueRow[] = [
+  { kind: 'caster', name: 'MagAtk', value: '20' },
+  { kind: 'caster', name: 'skill_Fire', value: '4' },
+  { kind: 'target', name: 'HP', value: '30' },
+];
+
+const STORAGE_KEY = 'formulaPlayground';
+
+export function initFormulaPlaygroundApp(): void {
+  // Check if we're on the formula playground page
+  if (!document.getElementById('formulaInput')) return;
+
+  // Theme management
+  initTheme();
+
+  const formulaInput = getElementByIdAs('formulaInput', HTMLInputElement);
+  const valuesTableBody = getElementById('valuesTableBody');
+
+  let rows = loadRows();
+
+  // A formula in the URL (e.g., from a shared link) takes priority over the last one used
+  const urlParams = new URLSearchParams(window.location.search);
+  formulaInput.value = urlParams.get('formula') ?? localStorage.getItem(`${STORAGE_KEY}.formula`) ?? DEFAULT_FORMULA;
+
+  formulaInput.addEventListener('input', () => {
+    localStorage.setItem(`${STORAGE_KEY}.formula`, formulaInput.value);
+    update();
+  });
+
+  // Edits change the rows in place, so the table isn't re-rendered while typing
+  valuesTableBody.addEventListener('input', e => {
+    const target = e.target;
+    if (!(target instanceof HTMLInputElement || target instanceof HTMLSelectElement)) return;
+    const row = rows[Number(target.closest('tr')?.getAttribute('data-index'))];
+    const field = target.getAttribute('data-field');
+    if (!row || !field) return;
+
+    if (field === 'kind') {
+      row.kind = target.value as ValueKind;
+    } else if (field === 'name') {
+      row.name = target.value;
+    } else {
+      row.value = target.value;
+    }
+    saveRows();
+    update();
+  });
+
+  valuesTableBody.addEventListener('click', e => {
+    const target = assertInstanceOf(e.target, HTMLElement, 'Values table click event');
+    if (!target.closest('.remove-value-btn')) return;
+    const index = Number(target.closest('tr')?.getAttribute('data-index'));
+    rows.splice(index, 1);
+    saveRows();
+    renderRows();
+    update();
+  });
+
+  getElementById('addValue').addEventListener('click', () => {
+    rows.push({ kind: 'caster', name: '', value: '' });
+    saveRows();
+    renderRows();
+    const nameInputs = valuesTableBody.querySelectorAll('input[data-field="name"]');
+    const lastNameInput = nameInputs[nameInputs.length - 1];
+    if (lastNameInput instanceof HTMLInputElement) {
+      lastNameInput.focus();
+    }
+  });
+
+  getElementById('resetValues').addEventListener('click', () => {
+    rows = DEFAULT_ROWS.map(row => ({ ...row }));
+    saveRows();
+    renderRows();
+    update();
+  });
+
+  // Initial render
+  renderRows();
+  update();
+
+  function loadRows(): ValueRow[] {
+    const saved = localStorage.getItem(`${STORAGE_KEY}.values`);
+    if (saved) {
+      try {
+        const parsed: unknown = JSON.parse(saved);
+        if (Array.isArray(parsed)) {
+          return parsed.filter(isValueRow);
+        }
+      } catch {
+        // Fall back to the defaults
+      }
+    }
+    return DEFAULT_ROWS.map(row => ({ ...row }));
+  }
+
+  function isValueRow(value: unknown): value is ValueRow {
+    if (typeof value !== 'object' || value === null) return false;
+    const row = value as Record<string, unknown>;
+    return (
+      VALUE_KINDS.some(({ kind }) => kind === row['kind']) &&
+      typeof row['name'] === 'string' &&
+      typeof row['value'] === 'string'
+    );
+  }
+
+  function saveRows(): void {
+    localStorage.setItem(`${STORAGE_KEY}.values`, JSON.stringify(rows));
+  }
+
+  /**
+   * Build the evaluator's context from the table, skipping rows without a name or numeric value
+   */
+  function buildContext(): FormulaContext {
+    const caster: Record<string, number> = {};
+    const target: Record<string, number> = {};
+    const globalVars: Record<string, number | string> = {};
+    const items: Record<string, number> = {};
+    const formulaGlobals: Record<string, string> = {};
+
+    for (const row of rows) {
+      const name = row.name.trim();
+      const value = row.value.trim();
+      if (!name) continue;
+
+      const number = value === '' ? NaN : Number(value);
+      if (row.kind === 'global') {
+        globalVars[name] = isNaN(number) ? value : number;
+      } else if (row.kind === 'formulaGlobal') {
+        formulaGlobals[name] = value;
+      } else if (!isNaN(number)) {
+        const values = row.kind === 'caster' ? caster : row.kind === 'target' ? target : items;
+        values[name] = number;
+      }
+    }
+
+    return { caster, target, globalVars, items, formulaGlobals };
+  }
+
+  function update(): void {
+    const formula = formulaInput.value.trim();
+    const resultElement = getElementById('formulaResult');
+    const errorsElement = getElementById('formulaErrors');
+    const treeElement = getElementById('astTree');
+
+    errorsElement.innerHTML = '';
+    if (!formula) {
+      resultElement.className = 'formula-result';
+      resultElement.textContent = 'Enter a formula to evaluate it.';
+      treeElement.innerHTML = '';
+      return;
+    }
+
+    let ast: ASTNode;
+    try {
+      ast = parseFormula(formula);
+    } catch (error) {
+      resultElement.className = 'formula-result error';
+      resultElement.textContent = error instanceof Error ? error.message : String(error);
+      treeElement.innerHTML = '<p class="placeholder">The formula could not be parsed.</p>';
+      return;
+    }
+
+    treeElement.innerHTML = `<ul>${renderTree(getASTTree(ast))}</ul>`;
+
+    errorsElement.innerHTML = validateAST(ast)
+      .map(error => {
+        const operatorLink = error.operatorName
+          ? ` <a href="formulas.html?operator=${encodeURIComponent(error.operatorName)}" target="_blank">Reference</a>`
+          : '';
+        const suggestions =
+          error.suggestions.length > 0 ? ` Did you mean: ${error.suggestions.map(escapeHtml).join(', ')}?` : '';
+        const context = error.context ? `<span class="formula-error-context">${escapeHtml(error.context)}</span>` : '';
+        return `<li>${escapeHtml(error.message)}${suggestions}${operatorLink}${context}</li>`;
+      })
+      .join('');
+
+    const result = evaluateAST(ast, buildContext());
+    if (result.value !== undefined) {
+      resultElement.className = 'formula-result';
+      resultElement.innerHTML = `Result: <span class="result-value">${escapeHtml(String(result.value))}</span>`;
+    } else if (result.needsContext) {
+      resultElement.className = 'formula-result needs-context';
+      resultElement.textContent = `Needs a value: ${result.needsContext.message}`;
+    } else {
+      resultElement.className = 'formula-result error';
+      resultElement.textContent = result.error ?? '';
+    }
+  }
+
+  function renderTree(node: ASTTreeNode): string {
+    const edge = node.edge ? `<span class="ast-edge">${escapeHtml(node.edge)}</span>` : '';
+    const detail = node.detail ? `<code class="ast-detail">${escapeHtml(node.detail)}</code>` : '';
+    const children = node.children.length > 0 ? `<ul>${node.children.map(renderTree).join('')}</ul>` : '';
+    return `<li>${edge}<span class="ast-type">${node.type}</span>${detail}${children}</li>`;
+  }
+
+  function renderRows(): void {
+    valuesTableBody.innerHTML = rows
+      .map((row, index) => {
+        const options = VALUE_KINDS.map(
+          ({ kind, label }) => `<option value="${kind}"${kind === row.kind ? ' selected' : ''}>${label}</option>`
+        ).join('');
+        return `
+        <tr data-index="${index}">
+          <td><select data-field="kind">${options}</select></td>
+          <td><input type="text" data-field="name" spellcheck="false" /></td>
+          <td><input type="text" data-field="value" spellcheck="false" /></td>
+          <td><button class="remove-value-btn" aria-label="Remove value">×</button></td>
+        </tr>`;
+      })
+      .join('');
+
+    // Set the text after rendering, so names and values don't need escaping for attributes
+    rows.forEach((row, index) => {
+      querySelectorAs(`tr[data-index="${index}"] input[data-field="name"]`, HTMLInputElement, valuesTableBody).value =
+        row.name;
+      querySelectorAs(`tr[data-index="${index}"] input[data-field="value"]`, HTMLInputElement, valuesTableBody).value =
+        row.value;
+    });
+  }
+}
+
+// Initialize on page load
+initFormulaPlaygroundApp();
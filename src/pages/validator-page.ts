@@ -16,11 +16,16 @@ import type {
   ValidationResult,
   ValidationMessage,
   Correction,
+  RelatedLocation,
   ObjectDisplayInfo,
   ObjectGroup,
   ParsedObject,
+  RenameResult,
 } from '../types.js';
+import type { IdReference } from '../reference-index.js';
 import { SEVERITY_ORDER } from '../types.js';
+import { applyCorrections } from '../position-utils.js';
+import { CONFIG_FILE_NAME, parseConfig, type ModValidatorConfig } from '../config.js';
 import JSZip from 'jszip';
 
 // Global ModValidator from bundle
@@ -35,6 +40,10 @@ declare global {
         removeFromCache: (filePath: string) => void;
         getParsedObjectsCache: () => Map<string, ParsedObject[]>;
         resolveFunctionalAlias: (typeName: string) => string;
+        getReferencesToObject: (obj: ParsedObject) => IdReference[];
+        getIdAt: (filePath: string, line: number, column: number) => { type: string; id: string } | null;
+        renameId: (filePath: string, line: number, column: number, newId: string) => RenameResult;
+        setConfig: (config: ModValidatorConfig | null, toConfigPath?: (filePath: string) => string) => void;
       };
     };
   }
@@ -283,6 +292,11 @@ export function initValidatorApp(): void {
   let correctionIdCounter = 0;
   const generateCorrectionId = (): string => `correction-${correctionIdCounter++}`;
 
+  // Related location storage (for XSS safety - avoid putting file paths in HTML attributes)
+  const relatedLocationsMap = new Map<string, RelatedLocation>();
+  let relatedLocationIdCounter = 0;
+  const generateRelatedLocationId = (): string => `related-${relatedLocationIdCounter++}`;
+
   // Message data storage (for XSS safety - avoid putting file paths in HTML attributes)
   const messagesMap = new Map<string, ValidationMessage>();
   let messageIdCounter = 0;
@@ -295,6 +309,9 @@ export function initValidatorApp(): void {
   // Object viewer data storage (for XSS safety)
   const objectsDataMap = new Map<string, ObjectDisplayInfo>();
   let objectGroups: ObjectGroup[] = []; // Cache of all groups
+  const objectReferencesMap = new Map<string, IdReference>(); // Inbound references shown in the object viewer
+  let objectReferenceIdCounter = 0;
+  const generateObjectReferenceId = (): string => `object-reference-${objectReferenceIdCounter++}`;
   const visibleItemsPerGroup = new Map<string, number>(); // Track visible count per group
   let objectSearchTerm = ''; // Current search term
   const ITEMS_PER_PAGE = 100; // Show 100 items at a time
@@ -304,6 +321,7 @@ export function initValidatorApp(): void {
   const validateBtn = getElementByIdAs('validateBtn', HTMLButtonElement);
   const clearBtn = getElementByIdAs('clearBtn', HTMLButtonElement);
   const loadSampleBtn = getElementByIdAs('loadSampleBtn', HTMLButtonElement);
+  const renameIdBtn = getElementByIdAs('renameIdBtn', HTMLButtonElement);
   const resultsContainer = getElementByIdAs('results', HTMLDivElement);
   const validationStatus = getElementByIdAs('validationStatus', HTMLDivElement);
   const lineNumbers = getElementByIdAs('lineNumbers', HTMLDivElement);
@@ -338,6 +356,8 @@ export function initValidatorApp(): void {
   const uploadDirBtn = getElementByIdAs('uploadDirBtn', HTMLButtonElement);
   const fileInput = getElementByIdAs('fileInput', HTMLInputElement);
   const dirInput = getElementByIdAs('dirInput', HTMLInputElement);
+  const uploadConfigBtn = getElementByIdAs('uploadConfigBtn', HTMLButtonElement);
+  const configInput = getElementByIdAs('configInput', HTMLInputElement);
   const downloadZipBtn = getElementByIdAs('downloadZipBtn', HTMLButtonElement);
   const mainContainer = getElementByIdAs('main', HTMLElement);
 
@@ -347,10 +367,13 @@ export function initValidatorApp(): void {
   // Event listeners
   clearBtn.addEventListener('click', handleClear);
   loadSampleBtn.addEventListener('click', handleLoadSample);
+  renameIdBtn.addEventListener('click', handleRenameId);
   uploadFilesBtn.addEventListener('click', () => fileInput.click());
   uploadDirBtn.addEventListener('click', () => dirInput.click());
   fileInput.addEventListener('change', handleFileInputChange);
   dirInput.addEventListener('change', handleFileInputChange);
+  uploadConfigBtn.addEventListener('click', () => configInput.click());
+  configInput.addEventListener('change', handleConfigInputChange);
   downloadZipBtn.addEventListener('click', handleDownloadZip);
   allFilesStatus.addEventListener('click', () => switchViewMode('all'));
   currentFileStatus.addEventListener('click', () => switchViewMode('current'));
@@ -381,6 +404,14 @@ export function initValidatorApp(): void {
     lineNumbers.scrollTop = modInput.scrollTop;
   });
 
+  // F2 renames the ID at the cursor, like in code editors
+  modInput.addEventListener('keydown', e => {
+    if (e.key === 'F2') {
+      e.preventDefault();
+      handleRenameId();
+    }
+  });
+
   // Auto-validate on input (debounced)
   let validateTimeout: number | undefined;
   modInput.addEventListener('input', () => {
@@ -746,6 +777,64 @@ export function initValidatorApp(): void {
     input.value = '';
   }
 
+  /**
+   * Use a project config for validation
+   * Override globs are matched against paths relative to configDir (the uploaded directory the config was found in)
+   */
+  function setValidatorConfig(config: ModValidatorConfig | null, configDir: string): void {
+    const prefix = configDir ? `${configDir}/` : '';
+    validator.setConfig(config, filePath => (filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath));
+  }
+
+  /**
+   * Load the project config from uploaded files, if one was uploaded
+   * The config closest to the root is used; without one, every rule uses its default settings
+   */
+  async function loadUploadedConfig(fileMap: Map<string, File>): Promise<void> {
+    const configPaths = Array.from(fileMap.keys())
+      .filter(filePath => filePath.split('/').pop() === CONFIG_FILE_NAME)
+      .sort((a, b) => a.split('/').length - b.split('/').length);
+    const configPath = configPaths[0];
+    const configFile = configPath ? fileMap.get(configPath) : undefined;
+    if (!configPath || !configFile) {
+      setValidatorConfig(null, '');
+      return;
+    }
+
+    try {
+      setValidatorConfig(parseConfig(await configFile.text()), configPath.split('/').slice(0, -1).join('/'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to load ${configPath}; using default rule settings.\n\n${errorMessage}`);
+      setValidatorConfig(null, '');
+    }
+  }
+
+  /**
+   * Load a config file chosen from the Open menu, relative to the loaded directory, and revalidate
+   */
+  async function handleConfigInputChange(e: Event): Promise<void> {
+    const input = assertInstanceOf(e.target, HTMLInputElement);
+    const file = input.files?.[0];
+    // Reset input so the same file can be selected again
+    input.value = '';
+    if (!file) return;
+
+    try {
+      setValidatorConfig(parseConfig(await file.text()), fileManager?.rootName ?? '');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to load ${file.name}.\n\n${errorMessage}`);
+      return;
+    }
+
+    if (fileManager) {
+      validateAllFiles();
+    } else {
+      handleValidate();
+    }
+  }
+
   async function handleFilesUpload(fileMap: Map<string, File>): Promise<void> {
     // Check for empty upload
     if (fileMap.size === 0) {
@@ -830,6 +919,8 @@ export function initValidatorApp(): void {
       alert(`Warning: ${failures.length} file(s) failed to load:\n${failures.join('\n')}`);
     }
 
+    await loadUploadedConfig(fileMap);
+
     // Show file tree
     fileTreeContainer.style.display = 'flex';
     mainContainer.classList.add('with-file-tree');
@@ -1141,6 +1232,7 @@ export function initValidatorApp(): void {
   function displayAggregatedResults(textFiles: FileNodeTextFile[]): void {
     // Clear old data to prevent memory leaks
     correctionsMap.clear();
+    relatedLocationsMap.clear();
     messagesMap.clear();
 
     // Aggregate all messages from all files (ValidationResult already includes cross-file messages)
@@ -1500,6 +1592,63 @@ export function initValidatorApp(): void {
     refreshResultsDisplay();
   }
 
+  /**
+   * Rename the definition ID at the cursor across all loaded files
+   */
+  function handleRenameId(): void {
+    const filePath = fileManager?.currentFilePath || 'untitled.txt';
+    const cursor = modInput.selectionStart;
+
+    // Make sure the cache reflects edits that haven't been validated yet
+    clearTimeout(validateTimeout);
+    validator.validate(modInput.value, filePath);
+
+    const linesBeforeCursor = modInput.value.slice(0, cursor).split('\n');
+    const line = linesBeforeCursor.length;
+    const column = assertDefined(linesBeforeCursor[line - 1], 'Cursor line is undefined').length;
+
+    const target = validator.getIdAt(filePath, line, column);
+    if (!target) {
+      alert('Place the cursor on an ID, a cloneFrom value or a reference to an ID to rename it.');
+      return;
+    }
+
+    const newId = prompt(`Rename ${target.type} '${target.id}' in all files to:`, target.id)?.trim();
+    if (!newId || newId === target.id) return;
+
+    const result = validator.renameId(filePath, line, column, newId);
+    if (result.error !== undefined) {
+      alert(`Cannot rename ${target.type} '${target.id}': ${result.error}`);
+      return;
+    }
+
+    const correctionsByFile = new Map<string, Correction[]>();
+    for (const correction of result.corrections) {
+      const fileCorrections = correctionsByFile.get(correction.filePath) ?? [];
+      fileCorrections.push(correction);
+      correctionsByFile.set(correction.filePath, fileCorrections);
+    }
+
+    for (const [path, corrections] of correctionsByFile) {
+      if (path === filePath) {
+        // Edit the open file undoably, as a single step
+        replaceTextUndoable(modInput, 0, modInput.value.length, applyCorrections(modInput.value, corrections));
+        modInput.setSelectionRange(cursor, cursor);
+        updateLineNumbers();
+        continue;
+      }
+
+      const fileNode = fileManager?.files.get(path);
+      if (fileNode?.type === 'text-file') {
+        fileNode.content = applyCorrections(fileNode.content, corrections);
+        fileNode.validationResult = validator.validate(fileNode.content, fileNode.path);
+      }
+    }
+
+    // Re-validate the open file and the cross-file checks
+    handleValidate();
+  }
+
   function handleValidate(): void {
     const content = modInput.value;
 
@@ -1804,7 +1953,7 @@ export function initValidatorApp(): void {
     if (obj.id?.toLowerCase().includes(lowerSearch)) return true;
 
     // Match against any property name or value
-    for (const [propName, propInfo] of parsedObj.properties) {
+    for (const { name: propName, info: propInfo } of parsedObj.assignments) {
       if (propName.toLowerCase().includes(lowerSearch)) return true;
       if (propInfo.value.toLowerCase().includes(lowerSearch)) return true;
     }
@@ -1857,6 +2006,7 @@ export function initValidatorApp(): void {
             <span class="object-id"></span>
             <span class="object-location"></span>
           </div>
+          <div class="object-references"></div>
         `;
       })
       .join('');
@@ -1887,9 +2037,9 @@ export function initValidatorApp(): void {
               // Show first 3 properties for objects without ID
               const key = `${obj.filePath}:${obj.position.typeStartLine}`;
               const parsedObj = parsedObjMap.get(key);
-              if (parsedObj && parsedObj.properties.size > 0) {
-                const propEntries = Array.from(parsedObj.properties.entries()).slice(0, 3);
-                const propStrings = propEntries.map(([name, info]) => `${name}=${info.value}`);
+              if (parsedObj && parsedObj.assignments.length > 0) {
+                const propEntries = parsedObj.assignments.slice(0, 3);
+                const propStrings = propEntries.map(({ name, info }) => `${name}=${info.value}`);
                 idSpan.textContent = propStrings.join('; ');
               } else {
                 idSpan.textContent = '(no properties)';
@@ -1899,11 +2049,45 @@ export function initValidatorApp(): void {
           if (locationSpan) {
             locationSpan.textContent = `${obj.filePath}:${obj.position.typeStartLine}`;
           }
+
+          // List inbound references to this object's ID
+          const referencesContainer = item.nextElementSibling;
+          const parsedObj = parsedObjMap.get(`${obj.filePath}:${obj.position.typeStartLine}`);
+          if (referencesContainer?.classList.contains('object-references') && parsedObj) {
+            renderObjectReferences(referencesContainer, validator.getReferencesToObject(parsedObj));
+          }
         }
       }
     });
   }
 
+  /**
+   * Render links to the places that reference an object's ID
+   */
+  function renderObjectReferences(container: Element, references: IdReference[]): void {
+    if (references.length === 0) {
+      return;
+    }
+
+    container.append(`← ${references.length} reference${references.length !== 1 ? 's' : ''}: `);
+    references.forEach((ref, index) => {
+      const referenceId = generateObjectReferenceId();
+      objectReferencesMap.set(referenceId, ref);
+
+      const link = document.createElement('span');
+      link.className = 'correction-link object-reference-link';
+      link.setAttribute('data-reference-id', referenceId);
+      const source =
+        ref.kind === 'instance' ? `[${ref.sourceObject.type}] ID` : `${ref.sourceObject.type}.${ref.propertyName}`;
+      link.textContent = `${source} (${ref.filePath}:${ref.startLine})`;
+
+      if (index > 0) {
+        container.append(', ');
+      }
+      container.append(link);
+    });
+  }
+
   /**
    * Refresh the object viewer (called whenever validation cache changes)
    */
@@ -1911,6 +2095,7 @@ export function initValidatorApp(): void {
     // Reset state
     objectsRendered = false;
     objectsDataMap.clear();
+    objectReferencesMap.clear();
     objectGroups = [];
     visibleItemsPerGroup.clear();
 
@@ -2122,6 +2307,7 @@ export function initValidatorApp(): void {
   function displayResults(result: ValidationResult): void {
     // Clear old data to prevent memory leaks
     correctionsMap.clear();
+    relatedLocationsMap.clear();
     messagesMap.clear();
 
     // Update status (cross-file messages already included in result)
@@ -2215,6 +2401,20 @@ export function initValidatorApp(): void {
       }
     }
 
+    // Create links to related locations (e.g., other copies of a duplicate ID)
+    let relatedLocationsHTML = '';
+    if (msg.relatedLocations && msg.relatedLocations.length > 0) {
+      const relatedLinks = msg.relatedLocations
+        .map(related => {
+          const relatedId = generateRelatedLocationId();
+          relatedLocationsMap.set(relatedId, related);
+          const displayText = `${related.message} (${related.filePath}:${related.startLine})`;
+          return `<span class="correction-link related-location-link" data-related-id="${relatedId}">${escapeHtml(displayText)}</span>`;
+        })
+        .join(', ');
+      relatedLocationsHTML = `<div class="message-corrections">🔗 Related: ${relatedLinks}</div>`;
+    }
+
     // Create formula reference link if available
     let formulaReferenceHTML = '';
     if (msg.formulaReference) {
@@ -2247,10 +2447,12 @@ export function initValidatorApp(): void {
             <div class="message-header">
                 <span class="message-icon">${icon}</span>
                 <span>${displayMessage}</span>
+                <span class="message-rule-id" title="Rule ID (can be configured in ${CONFIG_FILE_NAME})">${msg.ruleId}</span>
             </div>
             ${msg.line ? `<div class="message-line-info">${filePathHTML}<span class="message-line-number">${line}</span></div>` : ''}
             ${displayContext ? `<div class="message-context">${escapeHtml(displayContext)}</div>` : ''}
             ${correctionsHTML}
+            ${relatedLocationsHTML}
             ${formulaReferenceHTML}
             ${taskReferenceHTML}
             ${documentationHTML}
@@ -2464,6 +2666,21 @@ export function initValidatorApp(): void {
   document.addEventListener('click', e => {
     const target = e.target as HTMLElement;
 
+    // Check if clicked on a reference in the object viewer
+    const objectReferenceLink = target.closest('.object-reference-link');
+    if (objectReferenceLink) {
+      e.stopPropagation();
+      const referenceId = objectReferenceLink.getAttribute('data-reference-id');
+      const ref = referenceId ? objectReferencesMap.get(referenceId) : undefined;
+      if (ref) {
+        if (fileManager && ref.filePath !== fileManager.currentFilePath) {
+          selectFile(ref.filePath);
+        }
+        scrollToLine(ref.startLine, ref);
+      }
+      return;
+    }
+
     // Check if clicked on an object item
     const objectItem = target.closest('.object-item.clickable');
     if (objectItem) {
@@ -2500,8 +2717,25 @@ export function initValidatorApp(): void {
       return;
     }
 
+    // Check if clicked on a related location link
+    const relatedLocationLink = target.closest('.related-location-link');
+    if (relatedLocationLink) {
+      e.stopPropagation();
+      const relatedId = relatedLocationLink.getAttribute('data-related-id');
+      const related = relatedId ? relatedLocationsMap.get(relatedId) : undefined;
+      if (related) {
+        if (fileManager && related.filePath !== fileManager.currentFilePath) {
+          selectFile(related.filePath);
+        }
+        scrollToLine(related.startLine, related);
+      }
+      return;
+    }
+
     // Check if clicked on a correction link
-    const correctionLink = target.closest('.correction-link:not(.formula-reference-link):not(.task-reference-link)');
+    const correctionLink = target.closest(
+      '.correction-link:not(.formula-reference-link):not(.task-reference-link):not(.related-location-link):not(.object-reference-link)'
+    );
     if (correctionLink) {
       e.stopPropagation();
       const correctionId = correctionLink.getAttribute('data-correction-id');
@@ -2526,7 +2760,8 @@ export function initValidatorApp(): void {
           if (fileManager && msg.filePath && msg.filePath !== fileManager.currentFilePath) {
             selectFile(msg.filePath);
           }
-          scrollToLine(msg.line);
+          // Select the exact span when the message has one
+          scrollToLine(msg.line, msg.range ?? null);
         }
       }
     }
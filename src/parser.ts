@@ -3,7 +3,15 @@
  * Converts tokens into structured object representations
  */
 
-import { Token, TokenType, ParsedObject, PropertyInfo, ValidationMessage } from './types.js';
+import {
+  Token,
+  TokenType,
+  ParsedObject,
+  PositionInfo,
+  PropertyInfo,
+  PropertyAssignment,
+  ValidationMessage,
+} from './types.js';
 import { ModLexer } from './lexer.js';
 
 export class ModParser {
@@ -19,8 +27,9 @@ export class ModParser {
 
   /**
    * Parse the source into objects
+   * Also returns the file's comments, which can hold suppression directives
    */
-  parse(): { objects: ParsedObject[]; errors: ValidationMessage[] } {
+  parse(): { objects: ParsedObject[]; errors: ValidationMessage[]; comments: Token[] } {
     // Tokenize
     const lexer = new ModLexer(this.source);
     this.tokens = lexer.tokenize();
@@ -56,10 +65,12 @@ export class ModParser {
           // Unexpected token outside of object definition
           const token = this.peek();
           this.errors.push({
+            ruleId: 'syntax-error',
             severity: 'error',
             message: 'Unexpected token outside object definition',
             filePath: this.filePath,
             line: token.line,
+            range: this.tokenRange(token),
             context: `Found "${token.value}", expected [ObjectType]`,
           });
         }
@@ -67,7 +78,8 @@ export class ModParser {
       }
     }
 
-    return { objects: this.objects, errors: this.errors };
+    const comments = this.tokens.filter(token => token.type === TokenType.COMMENT);
+    return { objects: this.objects, errors: this.errors, comments };
   }
 
   private parseObject(): ParsedObject | null {
@@ -77,10 +89,12 @@ export class ModParser {
     // Get object type name
     if (!this.check(TokenType.IDENTIFIER)) {
       this.errors.push({
+        ruleId: 'syntax-error',
         severity: 'error',
         message: 'Expected object type name after [',
         filePath: this.filePath,
         line: this.peek().line,
+        range: this.tokenRange(this.peek()),
         context: `Found ${this.peek().value}`,
       });
       return null;
@@ -96,10 +110,12 @@ export class ModParser {
     // Expect closing bracket
     if (!this.check(TokenType.RIGHT_BRACKET)) {
       this.errors.push({
+        ruleId: 'syntax-error',
         severity: 'error',
         message: 'Expected ] after object type name',
         filePath: this.filePath,
         line: this.peek().line,
+        range: this.tokenRange(this.peek()),
         context: `Found ${this.peek().value} in [${objectType}]`,
       });
       // Try to recover by finding the next ]
@@ -113,13 +129,14 @@ export class ModParser {
     }
 
     // Parse properties until next object or EOF
-    const properties = this.parseProperties();
+    const { properties, assignments } = this.parseProperties();
     const endLine = this.previous()?.line ?? startLine;
 
     return {
       type: objectType,
       filePath: this.filePath,
       properties,
+      assignments,
       startLine,
       endLine,
       typeStartLine,
@@ -132,8 +149,9 @@ export class ModParser {
     };
   }
 
-  private parseProperties(): Map<string, PropertyInfo> {
+  private parseProperties(): { properties: Map<string, PropertyInfo>; assignments: PropertyAssignment[] } {
     const properties = new Map<string, PropertyInfo>();
+    const assignments: PropertyAssignment[] = [];
 
     this.skipWhitespaceAndComments();
 
@@ -149,19 +167,15 @@ export class ModParser {
       if (property) {
         const { key, info } = property;
 
-        // Handle duplicate keys by appending '+' (like the C# code does)
-        let finalKey = key;
-        while (properties.has(finalKey)) {
-          finalKey += '+';
-        }
-
-        properties.set(finalKey, info);
+        // Keep every assignment; a repeated property's last assignment takes effect
+        assignments.push({ name: key, info });
+        properties.set(key, info);
       }
 
       this.skipWhitespaceAndComments();
     }
 
-    return properties;
+    return { properties, assignments };
   }
 
   private parseProperty(): { key: string; info: PropertyInfo } | null {
@@ -183,10 +197,12 @@ export class ModParser {
     // Check for equals sign
     if (!this.check(TokenType.EQUALS)) {
       this.errors.push({
+        ruleId: 'syntax-error',
         severity: 'error',
         message: `Expected = after property name '${propertyName}'`,
         filePath: this.filePath,
         line: propertyLine,
+        range: this.tokenRange(nameToken),
         context: `Found ${this.peek().value}`,
       });
       this.skipToNextLine();
@@ -316,10 +332,17 @@ export class ModParser {
 
       if (shouldHaveSemicolon) {
         this.errors.push({
+          ruleId: 'missing-semicolon',
           severity: 'error',
           message: `Property '${propertyName} = ${value}' does not end with semicolon`,
           filePath: this.filePath,
           line: propertyLine,
+          range: {
+            startLine: nameStartLine,
+            startColumn: nameStartColumn,
+            endLine: valueEndLine,
+            endColumn: valueEndColumn,
+          },
           context: 'Add ; at the end of the line',
           suggestion: 'Add a semicolon',
           suggestionIsAction: true,
@@ -468,4 +491,16 @@ export class ModParser {
     }
     return token;
   }
+
+  /**
+   * Get the range a single-line token covers, for error reporting
+   */
+  private tokenRange(token: Token): PositionInfo {
+    return {
+      startLine: token.line,
+      startColumn: token.column,
+      endLine: token.line,
+      endColumn: token.column + token.value.length,
+    };
+  }
 }
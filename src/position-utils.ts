@@ -5,7 +5,7 @@
  * that need to track positions within strings.
  */
 
-import type { PositionInfo } from './types.js';
+import type { Correction, ParsedObject, PositionInfo, PropertyInfo } from './types.js';
 
 /**
  * Position in text with line, column, and absolute offset tracking
@@ -98,3 +98,105 @@ export function toAbsolutePosition(pos: PositionInfo, baseStartLine: number, bas
     endColumn: pos.endLine === 0 ? baseStartColumn + pos.endColumn : pos.endColumn,
   };
 }
+
+/**
+ * Get the absolute range of a property's value in the file
+ */
+export function getValueRange(info: PropertyInfo): PositionInfo {
+  return {
+    startLine: info.valueStartLine,
+    startColumn: info.valueStartColumn,
+    endLine: info.valueEndLine,
+    endColumn: info.valueEndColumn,
+  };
+}
+
+/**
+ * Get the absolute range of a property's name in the file
+ */
+export function getNameRange(info: PropertyInfo): PositionInfo {
+  return {
+    startLine: info.nameStartLine,
+    startColumn: info.nameStartColumn,
+    endLine: info.nameStartLine,
+    endColumn: info.nameEndColumn,
+  };
+}
+
+/**
+ * Get the absolute range of an object's type name (inside the [Type] header)
+ */
+export function getTypeRange(obj: ParsedObject): PositionInfo {
+  return {
+    startLine: obj.typeStartLine,
+    startColumn: obj.typeStartColumn,
+    endLine: obj.typeStartLine,
+    endColumn: obj.typeEndColumn,
+  };
+}
+
+/**
+ * Get the absolute range of a whole line's content, ignoring surrounding whitespace
+ * Used for messages that aren't about a specific span
+ */
+export function getLineRange(lines: string[], line: number): PositionInfo {
+  const text = (lines[line - 1] ?? '').trimEnd();
+  return {
+    startLine: line,
+    startColumn: text.length - text.trimStart().length,
+    endLine: line,
+    endColumn: text.length,
+  };
+}
+
+/**
+ * Copy only the position fields of a positioned value (e.g., a reference that also holds its source object)
+ */
+export function copyPosition(pos: PositionInfo): PositionInfo {
+  return {
+    startLine: pos.startLine,
+    startColumn: pos.startColumn,
+    endLine: pos.endLine,
+    endColumn: pos.endColumn,
+  };
+}
+
+/**
+ * Check whether a position (1-indexed line, 0-indexed column) falls within an absolute range
+ * The start is inclusive and the end is exclusive
+ */
+export function containsPosition(range: PositionInfo, line: number, column: number): boolean {
+  const afterStart = line > range.startLine || (line === range.startLine && column >= range.startColumn);
+  const beforeEnd = line < range.endLine || (line === range.endLine && column < range.endColumn);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Apply corrections to text, returning the corrected text
+ * Corrections are applied from last to first so earlier positions stay valid;
+ * a correction that overlaps one already applied is skipped
+ */
+export function applyCorrections(content: string, corrections: Correction[]): string {
+  const lineOffsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineOffsets.push(i + 1);
+  }
+  const toOffset = (line: number, column: number) => (lineOffsets[line - 1] ?? content.length) + column;
+
+  const edits = corrections
+    .map(correction => ({
+      start: toOffset(correction.startLine, correction.startColumn),
+      end: toOffset(correction.endLine, correction.endColumn),
+      text: correction.replacementText,
+    }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = content;
+  let limit = Infinity;
+  for (const edit of edits) {
+    if (edit.end > limit) continue;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    limit = edit.start;
+  }
+  return result;
+}
@@ -11,6 +11,7 @@ import modSchemaData from './mod-schema.json' with { type: 'json' };
 import type { SchemaData } from './types.js';
 import { TaskValidator } from './task-validator.js';
 import { isValidBoolean, isValidInteger, isValidFloat, isValidByte } from './value-validators.js';
+import { getValueRange } from './position-utils.js';
 
 export class PropertyValidator {
   private enums: Record<string, Record<string, number>>;
@@ -34,6 +35,7 @@ export class PropertyValidator {
   ): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
     const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
 
     // Handle the special ! prefix for overwriting lists
     const hasOverwritePrefix = propertyName.startsWith('!');
@@ -66,10 +68,12 @@ export class PropertyValidator {
             replacementText: s.value,
           }));
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid boolean value for ${propertyName}`,
             filePath: propInfo.filePath,
             line,
+            range,
             context: `Expected 'true' or 'false', got '${cleanValue}'`,
             corrections,
           });
@@ -79,10 +83,12 @@ export class PropertyValidator {
       case 'integer':
         if (!isValidInteger(cleanValue)) {
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid integer value for ${propertyName}`,
             filePath: propInfo.filePath,
             line,
+            range,
             context: `Expected whole number, got '${cleanValue}'`,
           });
         }
@@ -91,10 +97,12 @@ export class PropertyValidator {
       case 'float':
         if (!isValidFloat(cleanValue)) {
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid float value for ${propertyName}`,
             filePath: propInfo.filePath,
             line,
+            range,
             context: `Expected number, got '${cleanValue}'`,
           });
         }
@@ -103,10 +111,12 @@ export class PropertyValidator {
       case 'byte':
         if (!isValidByte(cleanValue)) {
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid byte value for ${propertyName}`,
             filePath: propInfo.filePath,
             line,
+            range,
             context: `Expected number 0-255, got '${cleanValue}'`,
           });
         }
@@ -118,19 +128,19 @@ export class PropertyValidator {
         break;
 
       case 'Vector2':
-        messages.push(...this.validateVector2(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateVector2(propertyName, cleanValue, propInfo));
         break;
 
       case 'Vector3':
-        messages.push(...this.validateVector3(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateVector3(propertyName, cleanValue, propInfo));
         break;
 
       case 'Rectangle':
-        messages.push(...this.validateRectangle(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateRectangle(propertyName, cleanValue, propInfo));
         break;
 
       case 'TileCoord':
-        messages.push(...this.validateTileCoord(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateTileCoord(propertyName, cleanValue, propInfo));
         break;
 
       case 'Color':
@@ -149,20 +159,20 @@ export class PropertyValidator {
 
       case 'List<integer>':
         messages.push(
-          ...this.validateListInteger(propertyName, cleanValue, hasOverwritePrefix, propInfo.filePath, line)
+          ...this.validateListInteger(propertyName, cleanValue, hasOverwritePrefix, propInfo)
         );
         break;
 
       case 'List<float>':
-        messages.push(...this.validateListFloat(propertyName, cleanValue, hasOverwritePrefix, propInfo.filePath, line));
+        messages.push(...this.validateListFloat(propertyName, cleanValue, hasOverwritePrefix, propInfo));
         break;
 
       case 'List<Vector2>':
-        messages.push(...this.validateVector2(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateVector2(propertyName, cleanValue, propInfo));
         break;
 
       case 'List<TileCoord>':
-        messages.push(...this.validateTileCoord(propertyName, cleanValue, propInfo.filePath, line));
+        messages.push(...this.validateTileCoord(propertyName, cleanValue, propInfo));
         break;
 
       case 'List<Formula>':
@@ -210,10 +220,12 @@ export class PropertyValidator {
           break;
         }
         messages.push({
+          ruleId: 'unvalidated-type',
           severity: 'info',
           message: `Cannot validate type ${expectedType} for ${propertyName}`,
           filePath: propInfo.filePath,
           line,
+          range,
           context: 'Type validation not implemented for this type',
         });
         break;
@@ -243,6 +255,16 @@ export class PropertyValidator {
     return this.taskValidator.validateTaskName(taskName, propInfo);
   }
 
+  /**
+   * Get the enum members (name → numeric value) accepted by a field type (direct, List<Enum> or HashSet<Enum>)
+   * Returns null if the type isn't an enum type
+   */
+  getEnumValues(expectedType: FieldType, className: string): Record<string, number> | null {
+    const enumName = expectedType.match(/^(?:List|HashSet)<(\w+)>$/)?.[1] ?? expectedType;
+    const resolvedEnumName = this.resolveEnumName(enumName, className);
+    return (resolvedEnumName ? this.enums[resolvedEnumName] : undefined) ?? null;
+  }
+
   /**
    * Resolve an enum name to its actual key in the enums registry
    * Tries className.enumName first, then just enumName
@@ -270,16 +292,19 @@ export class PropertyValidator {
   ): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
     const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
     const enumValues = this.enums[enumName];
 
     if (!enumValues) {
       // Enum not found in schema, just check it's a valid identifier
       if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value)) {
         messages.push({
+          ruleId: 'invalid-enum-value',
           severity: 'warning',
           message: `Invalid ${enumName} value '${value}' for ${propertyName}`,
           filePath: propInfo.filePath,
           line,
+          range,
         });
       }
       return messages;
@@ -291,10 +316,12 @@ export class PropertyValidator {
       // Special case for Element enum with custom values (> 2000)
       if (enumName === 'Element' && numericValue > 2000) {
         messages.push({
+          ruleId: 'custom-element',
           severity: 'info',
           message: `Custom Element value detected: ${value}`,
           filePath: propInfo.filePath,
           line,
+          range,
           context: `Custom element values (> 2000) are reserved for modders`,
           suggestion: `Check the modder community document to ensure this value hasn't been taken and to reserve a section`,
           documentationUrl:
@@ -319,19 +346,23 @@ export class PropertyValidator {
           replacementText: name,
         }));
         messages.push({
+          ruleId: 'numeric-enum-value',
           severity: 'warning',
           message: `Numeric enum value used for ${propertyName}`,
           filePath: propInfo.filePath,
           line,
+          range,
           context: `Use the enum name instead of the numeric value '${value}'`,
           corrections,
         });
       } else {
         messages.push({
+          ruleId: 'invalid-enum-value',
           severity: 'error',
           message: `Invalid ${enumName} numeric value for ${propertyName}`,
           filePath: propInfo.filePath,
           line,
+          range,
           context: `'${value}' is not a valid ${enumName} value`,
           suggestion: `Use enum names instead of numbers`,
         });
@@ -354,10 +385,12 @@ export class PropertyValidator {
       }));
 
       messages.push({
+        ruleId: 'invalid-enum-value',
         severity: 'error',
         message: `Invalid ${enumName} value '${value}' for ${propertyName}`,
         filePath: propInfo.filePath,
         line,
+        range,
         corrections,
       });
     }
@@ -365,16 +398,21 @@ export class PropertyValidator {
     return messages;
   }
 
-  private validateVector2(name: string, value: string, filePath: string, line: number): ValidationMessage[] {
+  private validateVector2(name: string, value: string, propInfo: PropertyInfo): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
+    const { filePath } = propInfo;
+    const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
     const parts = value.split(',').map(p => p.trim());
 
     if (parts.length !== 2) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Invalid Vector2 for ${name}`,
         filePath,
         line,
+        range,
         context: `Expected format: x,y (got ${parts.length} values)`,
       });
       return messages;
@@ -383,18 +421,22 @@ export class PropertyValidator {
     const x = parts[0];
     if (!x) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Missing X component for Vector2 in ${name}`,
         filePath,
         line,
+        range,
         context: `Expected format: x,y`,
       });
     } else if (!isValidFloat(x)) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Invalid Vector2 X value for ${name}`,
         filePath,
         line,
+        range,
         context: `Expected number, got '${x}'`,
       });
     }
@@ -402,18 +444,22 @@ export class PropertyValidator {
     const y = parts[1];
     if (!y) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Missing Y component for Vector2 in ${name}`,
         filePath,
         line,
+        range,
         context: `Expected format: x,y`,
       });
     } else if (!isValidFloat(y)) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Invalid Vector2 Y value for ${name}`,
         filePath,
         line,
+        range,
         context: `Expected number, got '${y}'`,
       });
     }
@@ -421,16 +467,21 @@ export class PropertyValidator {
     return messages;
   }
 
-  private validateVector3(name: string, value: string, filePath: string, line: number): ValidationMessage[] {
+  private validateVector3(name: string, value: string, propInfo: PropertyInfo): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
+    const { filePath } = propInfo;
+    const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
     const parts = value.split(',').map(p => p.trim());
 
     if (parts.length !== 3) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Invalid Vector3 for ${name}`,
         filePath,
         line,
+        range,
         context: `Expected format: x,y,z (got ${parts.length} values)`,
       });
       return messages;
@@ -441,18 +492,22 @@ export class PropertyValidator {
       const component = parts[i];
       if (!component) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Missing ${componentNames[i]} component for Vector3 in ${name}`,
           filePath,
           line,
+          range,
           context: `Expected format: x,y,z`,
         });
       } else if (!isValidFloat(component)) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Invalid Vector3 ${componentNames[i]} value for ${name}`,
           filePath,
           line,
+          range,
           context: `Expected number, got '${component}'`,
         });
       }
@@ -461,16 +516,21 @@ export class PropertyValidator {
     return messages;
   }
 
-  private validateRectangle(name: string, value: string, filePath: string, line: number): ValidationMessage[] {
+  private validateRectangle(name: string, value: string, propInfo: PropertyInfo): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
+    const { filePath } = propInfo;
+    const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
     const parts = value.split(',').map(p => p.trim());
 
     if (parts.length !== 4) {
       messages.push({
+        ruleId: 'invalid-value',
         severity: 'error',
         message: `Invalid Rectangle for ${name}`,
         filePath,
         line,
+        range,
         context: `Expected format: x,y,width,height (got ${parts.length} values)`,
       });
       return messages;
@@ -481,18 +541,22 @@ export class PropertyValidator {
       const component = parts[i];
       if (!component) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Missing ${componentNames[i]} component for Rectangle in ${name}`,
           filePath,
           line,
+          range,
           context: `Expected format: x,y,width,height`,
         });
       } else if (!isValidInteger(component)) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Invalid Rectangle ${componentNames[i]} value for ${name}`,
           filePath,
           line,
+          range,
           context: `Expected integer, got '${component}'`,
         });
       }
@@ -501,9 +565,9 @@ export class PropertyValidator {
     return messages;
   }
 
-  private validateTileCoord(name: string, value: string, filePath: string, line: number): ValidationMessage[] {
+  private validateTileCoord(name: string, value: string, propInfo: PropertyInfo): ValidationMessage[] {
     // TileCoord is same as Vector2
-    return this.validateVector2(name, value, filePath, line);
+    return this.validateVector2(name, value, propInfo);
   }
 
   private validateListString(
@@ -523,10 +587,12 @@ export class PropertyValidator {
     name: string,
     value: string,
     isOverwrite: boolean,
-    filePath: string,
-    line: number
+    propInfo: PropertyInfo
   ): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
+    const { filePath } = propInfo;
+    const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
 
     if (isOverwrite) {
       // Comma-separated list of integers
@@ -537,10 +603,12 @@ export class PropertyValidator {
       for (const part of parts) {
         if (!isValidInteger(part)) {
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid integer in list for ${name}`,
             filePath,
             line,
+            range,
             context: `Expected integer, got '${part}'`,
           });
         }
@@ -549,10 +617,12 @@ export class PropertyValidator {
       // Single integer to append
       if (!isValidInteger(value)) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Invalid integer for ${name}`,
           filePath,
           line,
+          range,
           context: `Expected integer, got '${value}'`,
         });
       }
@@ -565,10 +635,12 @@ export class PropertyValidator {
     name: string,
     value: string,
     isOverwrite: boolean,
-    filePath: string,
-    line: number
+    propInfo: PropertyInfo
   ): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
+    const { filePath } = propInfo;
+    const line = propInfo.valueStartLine;
+    const range = getValueRange(propInfo);
 
     if (isOverwrite) {
       // Comma-separated list of floats
@@ -579,10 +651,12 @@ export class PropertyValidator {
       for (const part of parts) {
         if (!isValidFloat(part)) {
           messages.push({
+            ruleId: 'invalid-value',
             severity: 'error',
             message: `Invalid float in list for ${name}`,
             filePath,
             line,
+            range,
             context: `Expected number, got '${part}'`,
           });
         }
@@ -591,10 +665,12 @@ export class PropertyValidator {
       // Single float to append
       if (!isValidFloat(value)) {
         messages.push({
+          ruleId: 'invalid-value',
           severity: 'error',
           message: `Invalid float for ${name}`,
           filePath,
           line,
+          range,
           context: `Expected number, got '${value}'`,
         });
       }
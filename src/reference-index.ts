@@ -0,0 +1,472 @@
+/**
+ * Cross-file reference index
+ *
+ * Indexes every definition ID across all loaded files, along with every
+ * property value that refers to a definition by ID:
+ * - Fields that name another definition (e.g., ItemType.action -> Action)
+ * - Instance IDs (e.g., [Item] ID -> ItemType, [Actor] ID -> ActorType)
+ * - cloneFrom targets on definitions (same definition type)
+ * - ID parameters of task strings (e.g., action,<actionID>)
+ * - ID arguments of formula operators (e.g., item:<itemID>, loc:<locationID>, d:<formulaName>)
+ *
+ * IDs shipped with the base game come from the bundled vanilla-ids.json catalog.
+ */
+
+import type { ClassSchema, ModSchema, ParsedObject, PropertyInfo, SchemaData, VanillaIdsData } from './types.js';
+import { TaskValidator, getTaskStringProperties } from './task-validator.js';
+import { parseFormula, type ASTNode } from './formula-parser.js';
+import { getDefinitionArguments } from './formula-metadata.js';
+import { createPositionInfo, offsetToPosition, toAbsolutePosition } from './position-utils.js';
+import modSchemaData from './mod-schema.json' with { type: 'json' };
+import vanillaIdsData from './vanilla-ids.json' with { type: 'json' };
+
+/**
+ * How a reference was found
+ */
+export type ReferenceKind = 'field' | 'instance' | 'cloneFrom' | 'taskParameter' | 'formulaArgument';
+
+/**
+ * An object that defines an ID
+ */
+export interface IdDefinition {
+  type: string; // Definition type, with functional aliases resolved (e.g., "ItemType")
+  id: string;
+  object: ParsedObject;
+  idProperty: PropertyInfo;
+}
+
+/**
+ * A property value (or part of one) that refers to a definition by ID
+ *
+ * Positions use the same conventions as Correction:
+ * lines are 1-indexed, columns are 0-indexed, endColumn is exclusive
+ */
+export interface IdReference {
+  targetType: string; // Definition type the ID should resolve to
+  id: string;
+  kind: ReferenceKind;
+  sourceObject: ParsedObject;
+  propertyName: string; // Property holding the reference (without ! prefix or + suffixes)
+  filePath: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  passesArgument?: boolean | undefined; // Global formula references only: whether x is given (e.g., d:scalingDmg(5))
+}
+
+/**
+ * Special objects that are referred to by ID like definitions, with functional aliases resolved
+ */
+const SPECIAL_DEFINITION_TYPES = new Set(['GlobalFormula']);
+
+/**
+ * Fields that refer to a definition by ID, keyed by class name (after type alias resolution)
+ * List and HashSet fields hold comma-separated IDs
+ */
+export const REFERENCE_FIELDS: Record<string, Record<string, string>> = {
+  Actor: { actorTypeID: 'ActorType', dialogNodeID: 'DialogNode', faction: 'Faction' },
+  ActorClass: {
+    actions: 'Action',
+    paletteActionR: 'Action',
+    paletteActionG: 'Action',
+    paletteActionB: 'Action',
+    journalID: 'JournalEntry',
+  },
+  ActorType: {
+    unarmedAction: 'Action',
+    innateActions: 'Action',
+    defaultFaction: 'Faction',
+    defaultDialogNode: 'DialogNode',
+    journalID: 'JournalEntry',
+  },
+  DialogNode: { nextNodeID: 'DialogNode' },
+  DialogNodeOverride: { dialogNodeID_toOverride: 'DialogNode', nextNodeID: 'DialogNode' },
+  ElementReaction: { action: 'Action' },
+  Faction: { capital_locationID: 'Location' },
+  ItemType: { action: 'Action', journalID: 'JournalEntry' },
+  Location: {
+    dialogNodeID: 'DialogNode',
+    tradeGood_itemTypeID: 'ItemType',
+    cafeFood_itemTypeID: 'ItemType',
+    auto_spawnDataID: 'SpawnData',
+  },
+  SpawnData: {
+    extraSpawnDataIDs: 'SpawnData',
+    mandatoryItemsPerActor_actorTypeID: 'ActorType',
+    mandatoryItemsPerActor_itemID: 'ItemType',
+    optionalItemsPerActor_actorTypeID: 'ActorType',
+    optionalItemsPerActor_itemID: 'ItemType',
+    factionOverride: 'Faction',
+  },
+};
+
+/**
+ * Instance types whose ID refers to the definition they are created from
+ */
+const INSTANCE_DEFINITION_TYPES: Record<string, string> = {
+  Item: 'ItemType',
+  Actor: 'ActorType',
+};
+
+/**
+ * Task parameters that refer to a definition by ID, keyed by canonical task name
+ * Each entry maps an index into the task's strings array to the referenced definition type
+ */
+export const TASK_REFERENCE_PARAMETERS: Record<string, Record<number, string>> = {
+  action: { 0: 'Action' },
+  actionOnPartyNumActor: { 0: 'Action' },
+  enterCombat_timer: { 0: 'Action' },
+};
+
+/**
+ * TriggerEffect properties that fill the task's strings array (when taskString is not used)
+ */
+const TRIGGER_EFFECT_STRING_PROPERTIES = ['sValue'];
+
+/**
+ * Convert a position relative to a property value (0-indexed line and column) to an offset into the value
+ */
+function positionToOffset(value: string, line: number, column: number): number {
+  const lines = value.split('\n');
+  let offset = column;
+  for (let i = 0; i < line; i++) {
+    offset += (lines[i]?.length ?? 0) + 1;
+  }
+  return offset;
+}
+
+export class ReferenceIndex {
+  private schema: ModSchema;
+  private typeAliases: Record<string, string>;
+  private functionalAliases: Record<string, string>;
+  private taskValidator = new TaskValidator();
+  private definitions: Map<string, Map<string, IdDefinition[]>> = new Map();
+  private references: IdReference[] = [];
+  private baseGameIds: Map<string, Set<string>>;
+  private baseGameVersion: string;
+
+  /**
+   * @param vanilla - Base game ID catalog (defaults to the bundled vanilla-ids.json)
+   */
+  constructor(objects: ParsedObject[], vanilla: VanillaIdsData = vanillaIdsData as VanillaIdsData) {
+    const data = modSchemaData as SchemaData;
+    this.schema = data.schema;
+    this.typeAliases = data.typeAliases;
+    this.functionalAliases = data.functionalAliases;
+
+    this.baseGameVersion = vanilla.gameVersion;
+    this.baseGameIds = new Map(Object.entries(vanilla.definitions).map(([type, ids]) => [type, new Set(ids)]));
+
+    for (const obj of objects) {
+      this.indexObject(obj);
+    }
+  }
+
+  /**
+   * Get all objects that define an ID for a definition type
+   */
+  getDefinitions(type: string, id: string): IdDefinition[] {
+    return this.definitions.get(type)?.get(id) ?? [];
+  }
+
+  /**
+   * Get every ID defined for a definition type
+   */
+  getDefinedIds(type: string): string[] {
+    return Array.from(this.definitions.get(type)?.keys() ?? []);
+  }
+
+  /**
+   * Check whether the base game defines an ID for a definition type
+   */
+  isBaseGameId(type: string, id: string): boolean {
+    return this.baseGameIds.get(type)?.has(id) ?? false;
+  }
+
+  /**
+   * Get every ID the base game defines for a definition type
+   */
+  getBaseGameIds(type: string): string[] {
+    return Array.from(this.baseGameIds.get(type) ?? []);
+  }
+
+  /**
+   * Check whether the base game catalog lists IDs for a definition type
+   * IDs of types it doesn't list may still be defined by the base game
+   */
+  hasBaseGameIds(type: string): boolean {
+    return (this.baseGameIds.get(type)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Get the game version the base game ID catalog was extracted from
+   */
+  getBaseGameVersion(): string {
+    return this.baseGameVersion;
+  }
+
+  /**
+   * Check whether an ID is defined by a loaded file or by the base game
+   */
+  isDefined(type: string, id: string): boolean {
+    return this.getDefinitions(type, id).length > 0 || this.isBaseGameId(type, id);
+  }
+
+  /**
+   * Get every indexed reference, in file order
+   */
+  getReferences(): IdReference[] {
+    return this.references;
+  }
+
+  /**
+   * Get every reference to a specific definition
+   */
+  getReferencesTo(type: string, id: string): IdReference[] {
+    return this.references.filter(ref => ref.targetType === type && ref.id === id);
+  }
+
+  private resolveTypeAlias(typeName: string): string {
+    return this.typeAliases[typeName] || typeName;
+  }
+
+  private resolveFunctionalAlias(typeName: string): string {
+    return this.functionalAliases[typeName] || typeName;
+  }
+
+  private indexObject(obj: ParsedObject): void {
+    const resolvedType = this.resolveTypeAlias(obj.type);
+    const classSchema = this.schema[resolvedType];
+    if (!classSchema) {
+      return;
+    }
+
+    const idProp = obj.properties.get('ID');
+    const id = idProp?.value.trim();
+
+    const definitionType = this.resolveFunctionalAlias(obj.type);
+    const isDefinition = classSchema.category === 'definition' || SPECIAL_DEFINITION_TYPES.has(definitionType);
+    if (isDefinition && idProp && id) {
+      this.addDefinition({ type: definitionType, id, object: obj, idProperty: idProp });
+    }
+
+    this.indexCloneFrom(obj, classSchema, id);
+    this.indexInstanceId(obj, resolvedType, idProp);
+    this.indexFields(obj, resolvedType);
+    this.indexTaskStrings(obj, resolvedType);
+    this.indexFormulas(obj, resolvedType, classSchema);
+  }
+
+  private addDefinition(definition: IdDefinition): void {
+    if (!this.definitions.has(definition.type)) {
+      this.definitions.set(definition.type, new Map());
+    }
+    const typeIds = this.definitions.get(definition.type)!;
+    typeIds.set(definition.id, [...(typeIds.get(definition.id) ?? []), definition]);
+  }
+
+  private addReference(
+    obj: ParsedObject,
+    propertyName: string,
+    info: PropertyInfo,
+    targetType: string,
+    kind: ReferenceKind,
+    offset: number,
+    text: string,
+    passesArgument?: boolean
+  ): void {
+    const span = toAbsolutePosition(
+      createPositionInfo(offsetToPosition(info.value, offset), text),
+      info.valueStartLine,
+      info.valueStartColumn
+    );
+
+    this.references.push({
+      targetType,
+      id: text,
+      kind,
+      sourceObject: obj,
+      propertyName,
+      filePath: info.filePath,
+      ...span,
+      ...(passesArgument !== undefined && { passesArgument }),
+    });
+  }
+
+  /**
+   * cloneFrom on a definition refers to another definition of the same type
+   */
+  private indexCloneFrom(obj: ParsedObject, classSchema: ClassSchema, id: string | undefined): void {
+    if (classSchema.category !== 'definition' || !classSchema.supportsCloneFrom) {
+      return;
+    }
+
+    const cloneFromProp = obj.properties.get('cloneFrom');
+    const target = cloneFromProp?.value.trim();
+    // Cloning from the object's own ID extends an existing definition rather than referencing a new one
+    if (!cloneFromProp || !target || target === id) {
+      return;
+    }
+
+    const targetType = this.resolveFunctionalAlias(obj.type);
+    const offset = cloneFromProp.value.indexOf(target);
+    this.addReference(obj, 'cloneFrom', cloneFromProp, targetType, 'cloneFrom', offset, target);
+  }
+
+  /**
+   * Instances like [Item] and [Actor] are created from a definition named by their ID
+   */
+  private indexInstanceId(obj: ParsedObject, resolvedType: string, idProp: PropertyInfo | undefined): void {
+    const targetType = INSTANCE_DEFINITION_TYPES[resolvedType];
+    const id = idProp?.value.trim();
+    if (!targetType || !idProp || !id) {
+      return;
+    }
+
+    // An explicit actorTypeID means the Actor's own ID is just a name for this instance
+    if (resolvedType === 'Actor' && obj.properties.get('actorTypeID')?.value.trim()) {
+      return;
+    }
+
+    this.addReference(obj, 'ID', idProp, targetType, 'instance', idProp.value.indexOf(id), id);
+  }
+
+  private indexFields(obj: ParsedObject, resolvedType: string): void {
+    const referenceFields = REFERENCE_FIELDS[resolvedType];
+    if (!referenceFields) {
+      return;
+    }
+
+    for (const { name: propName, info } of obj.assignments) {
+      const name = propName.replace(/^!/, '').replace(/\++$/, '');
+      const targetType = referenceFields[name];
+      if (!targetType) continue;
+
+      // Split comma-separated values, tracking the offset of each trimmed part
+      let offset = 0;
+      for (const part of info.value.split(',')) {
+        const id = part.trim();
+        if (id) {
+          this.addReference(obj, name, info, targetType, 'field', offset + part.indexOf(id), id);
+        }
+        offset += part.length + 1;
+      }
+    }
+  }
+
+  private indexTaskStrings(obj: ParsedObject, resolvedType: string): void {
+    for (const { name, info } of getTaskStringProperties(obj, resolvedType)) {
+      const parsed = this.taskValidator.parseTaskString(info.value);
+      const canonicalName = this.taskValidator.resolveTaskName(parsed.taskName);
+      const referenceParams = canonicalName ? TASK_REFERENCE_PARAMETERS[canonicalName] : undefined;
+      if (!referenceParams) continue;
+
+      // Walk the parameters that land in the strings array, counting their index
+      let stringIndex = 0;
+      for (const param of parsed.parameters) {
+        if (param.type !== 'string' && param.type !== 'globalVarSubstitution') continue;
+
+        const targetType = referenceParams[stringIndex];
+        stringIndex++;
+
+        if (!targetType || param.type !== 'string' || param.source === '@A' || param.globalVarName) continue;
+
+        const id = param.value.trim();
+        if (!id) continue;
+
+        // Parameter positions are relative to the task string, which is the property value
+        const prefixLength = param.source === '@S' ? 2 : 0;
+        const paramOffset = positionToOffset(info.value, param.startLine, param.startColumn) + prefixLength;
+        this.addReference(obj, name, info, targetType, 'taskParameter', paramOffset, id);
+      }
+    }
+
+    // TriggerEffect can also name its task with effectID and fill parameters with individual properties
+    if (resolvedType === 'TriggerEffect' && !obj.properties.get('taskString')?.value.trim()) {
+      const effectID = obj.properties.get('effectID')?.value.trim();
+      const canonicalName = effectID ? this.taskValidator.resolveTaskName(effectID) : undefined;
+      const referenceParams = canonicalName ? TASK_REFERENCE_PARAMETERS[canonicalName] : undefined;
+      if (!referenceParams) return;
+
+      TRIGGER_EFFECT_STRING_PROPERTIES.forEach((propName, index) => {
+        const targetType = referenceParams[index];
+        const info = obj.properties.get(propName);
+        const id = info?.value.trim();
+        if (targetType && info && id) {
+          this.addReference(obj, propName, info, targetType, 'taskParameter', info.value.indexOf(id), id);
+        }
+      });
+    }
+  }
+
+  private indexFormulas(obj: ParsedObject, resolvedType: string, classSchema: ClassSchema): void {
+    // Formula-typed properties that hold task strings (e.g., task magnitudes) aren't formulas
+    const taskStringInfos = new Set(getTaskStringProperties(obj, resolvedType).map(prop => prop.info));
+
+    for (const { name: propName, info } of obj.assignments) {
+      if (taskStringInfos.has(info) || !info.value.trim()) continue;
+
+      const name = propName.replace(/^!/, '').replace(/\++$/, '');
+      const fields = classSchema.fields.filter(field => field.name === name);
+      const field = fields.find(f => !f.virtual) ?? fields[0];
+      if (field?.type !== 'Formula' && field?.type !== 'List<Formula>') continue;
+
+      let ast: ASTNode;
+      try {
+        ast = parseFormula(info.value);
+      } catch {
+        // Syntax errors are reported by formula validation
+        continue;
+      }
+
+      const visit = (node: ASTNode | undefined): void => {
+        if (!node) return;
+
+        switch (node.type) {
+          case 'function': {
+            const idArgs = getDefinitionArguments(node.name.value);
+            node.args.forEach((arg, index) => {
+              const targetType = idArgs?.get(index);
+              const offset = positionToOffset(info.value, arg.startLine, arg.startColumn);
+              if (arg.type === 'string' && targetType && arg.value) {
+                this.addReference(obj, name, info, targetType, 'formulaArgument', offset, arg.value);
+              } else if (arg.type === 'functionStyle') {
+                // d:scalingDmg(5) names a global formula and passes x
+                if (targetType === 'GlobalFormula') {
+                  this.addReference(obj, name, info, targetType, 'formulaArgument', offset, arg.name, true);
+                }
+                arg.params.forEach(visit);
+              }
+            });
+            visit(node.body);
+            break;
+          }
+          case 'mathFunction': {
+            // d(swordDmg) names a global formula as the argument
+            const targetType = getDefinitionArguments(node.name.value)?.get(0);
+            if (targetType && node.argument?.type === 'global') {
+              const offset = positionToOffset(info.value, node.argument.startLine, node.argument.startColumn);
+              this.addReference(obj, name, info, targetType, 'formulaArgument', offset, node.argument.name);
+            } else {
+              visit(node.argument);
+            }
+            break;
+          }
+          case 'binaryOp':
+            visit(node.left);
+            visit(node.right);
+            break;
+          case 'unaryOp':
+            visit(node.operand);
+            break;
+          case 'global':
+            visit(node.argument);
+            break;
+        }
+      };
+
+      visit(ast);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Validation rules
+ *
+ * Every check reports its messages under a stable rule ID,
+ * so projects can turn rules off or change their severity (see config.ts)
+ */
+
+/**
+ * Rule IDs and what each rule checks
+ */
+export const RULES = {
+  // Mod file syntax (parser.ts)
+  'syntax-error': 'Malformed object headers and property assignments',
+  'missing-semicolon': 'Property values must end with a semicolon',
+
+  // Objects and properties (validator.ts)
+  'unknown-object-type': 'Object types must exist in the game',
+  'missing-id': 'Object types that are looked up by ID must have an ID',
+  'unsupported-clone-from': 'cloneFrom is only supported by some object types',
+  'unknown-property': 'Properties should be fields of the object type',
+  'repeated-property': 'Scalar properties should not be assigned more than once in an object',
+  'required-magnitude': 'ActorValueAffecters for some actor values need a magnitude',
+  'trigger-effect': 'TriggerEffects need exactly one of effectID and taskString',
+  'action-structure': 'Actions must be followed by [ActionAoE], then [AvAffecter] and [AvAffecterAoE] pairs',
+  'action-id-mismatch': "An Action's sub-objects must repeat the Action's ID",
+
+  // Cross-file checks (validator.ts)
+  'duplicate-id': 'IDs should not be defined more than once with different properties',
+  'identical-duplicate-id': 'IDs defined more than once with the same properties',
+  'unknown-reference': 'Referenced IDs should be defined by the mod or the base game',
+  'unknown-clone-from': 'cloneFrom bases should be defined by the mod or the base game',
+  'clone-from-self': "Objects that clone from their own ID override a definition that's loaded elsewhere",
+  'clone-from-cycle': 'cloneFrom chains must not loop',
+  'global-formula-missing-x': 'Global formulas that use x should be given a value for it',
+  'global-formula-cycle': 'Global formulas must not use each other in a loop',
+  'global-var-never-written': 'Global variables that are read should be written somewhere',
+  'global-var-never-read': 'Global variables that are written should be read somewhere',
+
+  // Property values (property-validator.ts)
+  'invalid-value': 'Property values must match the field type',
+  'invalid-enum-value': 'Enum values must be members of the enum',
+  'numeric-enum-value': 'Enum values should be written by name instead of by number',
+  'custom-element': 'Custom Element values should be reserved with the modding community',
+  'unvalidated-type': 'Property values of this type are not checked',
+
+  // Formulas (formula-validator.ts)
+  'formula-syntax': 'Formulas must parse',
+  'unknown-operator': 'Formula operators must exist',
+  'operator-syntax': 'Operators must use the colon or function-style syntax they were defined with',
+  'operator-arguments': 'Operators must be given one of their documented argument lists',
+  'invalid-operator-argument': 'Operator arguments must match their documented types',
+  'condition-precedence': 'Conditions with a formula only test the value right after them',
+  'non-boolean-condition': 'Formulas in condition properties (e.g., fReq) should return 0 or 1',
+
+  // Tasks (task-validator.ts)
+  'unknown-task': 'Tasks must exist',
+  'invalid-task-parameter': 'Task parameter prefixes (e.g., @G, @T, @F) must be given valid values',
+  'task-delay-position': 'Delay parameters should come at the end of the task string',
+  'missing-task-parameter': 'Tasks must be given their required parameters',
+  'extra-task-parameter': 'Tasks should not be given more parameters than they use',
+  'implicit-task-parameter': 'Task parameters that are filled in with defaults',
+  'ambiguous-task-use': 'Tasks with more than one documented use case',
+
+  // Dynamic text (dynamic-text-validator.ts)
+  'unknown-text-tag': 'Dynamic text tags must exist',
+  'unknown-text-command': 'Dynamic text commands must exist',
+  'text-tag-arguments': 'Dynamic text tags and commands must be given their documented arguments',
+  'text-tag-syntax': 'Dynamic text tags must be well-formed',
+
+  // Suppression comments (suppressions.ts)
+  'invalid-suppression': 'Suppression comments must use a known directive and rule IDs',
+  'unused-suppression': 'Suppression comments should suppress at least one message',
+
+  // Mod archives (archive.ts)
+  'archive-path-conflict': 'Archive entries should not share a path, ignoring case, with other entries or files',
+} as const satisfies Record<string, string>;
+
+export type RuleId = keyof typeof RULES;
+
+export const RULE_IDS = Object.keys(RULES) as RuleId[];
+
+/**
+ * Rules whose corrections are deterministic fixes, which --fix can apply
+ * Other rules' corrections are guesses (e.g., similar names for a typo) that need a person to choose
+ */
+export const AUTO_FIXABLE_RULE_IDS: ReadonlySet<RuleId> = new Set<RuleId>([
+  'missing-semicolon',
+  'action-id-mismatch',
+  'numeric-enum-value',
+  'implicit-task-parameter',
+]);
+
+export function isRuleId(value: string): value is RuleId {
+  return Object.prototype.hasOwnProperty.call(RULES, value);
+}
@@ -0,0 +1,261 @@
+/**
+ * SARIF 2.1.0 output for mod validator
+ * Lets code-scanning tools (e.g., GitHub code scanning) show validation messages as annotations
+ */
+
+import type { Correction, PositionInfo, ValidationMessage, ValidationSeverity } from './types.js';
+import { RULES } from './rules.js';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+// Minimal SARIF object model, covering only what the validator produces
+// See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string };
+  region?: SarifRegion;
+}
+
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: SarifPhysicalLocation;
+  message?: { text: string };
+}
+
+export interface SarifFix {
+  description: { text: string };
+  artifactChanges: {
+    artifactLocation: { uri: string };
+    replacements: { deletedRegion: SarifRegion; insertedContent: { text: string } }[];
+  }[];
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription?: { text: string };
+  help?: { text: string };
+  helpUri?: string;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  fixes?: SarifFix[];
+}
+
+export interface SarifNotification {
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: { name: string; version: string; informationUri: string; rules: SarifRule[] };
+    };
+    invocations: { executionSuccessful: boolean; toolExecutionNotifications: SarifNotification[] }[];
+    results: SarifResult[];
+  }[];
+}
+
+export interface SarifOptions {
+  toolVersion: string;
+  baseDir: string; // File paths under this directory are written as relative URIs
+  referenceBaseUrl?: string | undefined; // Where the formula and task reference pages are hosted, for help links
+}
+
+const LEVEL_MAP: Record<ValidationSeverity, SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  hint: 'note',
+  info: 'none',
+};
+
+/**
+ * Convert a file path to an artifact URI: relative (with forward slashes) under the base directory,
+ * otherwise an absolute file URI
+ */
+function toArtifactUri(filePath: string, baseDir: string): string {
+  const relative = path.relative(baseDir, path.resolve(baseDir, filePath));
+  if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative.split(path.sep).map(encodeURIComponent).join('/');
+  }
+  return pathToFileURL(path.resolve(baseDir, filePath)).href;
+}
+
+/**
+ * Convert a validator range (0-indexed, end-exclusive columns) to a SARIF region (1-indexed columns)
+ */
+function toRegion(range: PositionInfo): SarifRegion {
+  return {
+    startLine: range.startLine,
+    startColumn: range.startColumn + 1,
+    endLine: range.endLine,
+    endColumn: range.endColumn + 1,
+  };
+}
+
+/**
+ * Get the rule a message is reported under, with the reference documentation it links to
+ * Messages that link to an operator's or task's documentation are reported under a sub-rule for it
+ * (e.g., "operator-arguments/min"), so each one can have its own help link
+ */
+function getRule(msg: ValidationMessage, referenceBaseUrl: string | undefined): SarifRule {
+  const baseUrl = referenceBaseUrl?.replace(/\/?$/, '/');
+  const shortDescription = { text: RULES[msg.ruleId] };
+
+  if (msg.formulaReference) {
+    const rule: SarifRule = {
+      id: `${msg.ruleId}/${msg.formulaReference}`,
+      shortDescription,
+      help: { text: `See the formula reference for '${msg.formulaReference}'` },
+    };
+    if (baseUrl) rule.helpUri = `${baseUrl}formulas.html?operator=${encodeURIComponent(msg.formulaReference)}`;
+    return rule;
+  }
+
+  if (msg.taskReference) {
+    const rule: SarifRule = {
+      id: `${msg.ruleId}/${msg.taskReference}`,
+      shortDescription,
+      help: { text: `See the task reference for '${msg.taskReference}'` },
+    };
+    if (baseUrl) rule.helpUri = `${baseUrl}tasks.html?task=${encodeURIComponent(msg.taskReference)}`;
+    return rule;
+  }
+
+  if (msg.documentationUrl) {
+    return {
+      id: msg.ruleId,
+      shortDescription,
+      help: { text: `See ${msg.documentationLabel ?? msg.documentationUrl}` },
+      helpUri: msg.documentationUrl,
+    };
+  }
+
+  return { id: msg.ruleId, shortDescription };
+}
+
+/**
+ * Convert a message's corrections to SARIF fixes
+ * Each correction is an alternative fix; navigation-only corrections are left out
+ */
+function toFixes(msg: ValidationMessage, baseDir: string): SarifFix[] {
+  if (!msg.corrections || msg.correctionIcon === '🎯') {
+    return [];
+  }
+
+  // An action suggestion applies only its first correction (like the validator page)
+  const corrections: Correction[] = msg.suggestionIsAction ? msg.corrections.slice(0, 1) : msg.corrections;
+  return corrections.map(correction => ({
+    description: {
+      text:
+        msg.suggestionIsAction && msg.suggestion
+          ? msg.suggestion
+          : `Change to '${correction.displayText ?? correction.replacementText}'`,
+    },
+    artifactChanges: [
+      {
+        artifactLocation: { uri: toArtifactUri(correction.filePath, baseDir) },
+        replacements: [{ deletedRegion: toRegion(correction), insertedContent: { text: correction.replacementText } }],
+      },
+    ],
+  }));
+}
+
+/**
+ * Build a SARIF log from validation messages and the files that couldn't be read
+ */
+export function toSarifLog(
+  messages: ValidationMessage[],
+  fileErrors: { filePath: string; error: string }[],
+  options: SarifOptions
+): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const results = messages.map(msg => {
+    const rule = getRule(msg, options.referenceBaseUrl);
+    let ruleIndex = ruleIndexes.get(rule.id);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.push(rule) - 1;
+      ruleIndexes.set(rule.id, ruleIndex);
+    }
+
+    const physicalLocation: SarifPhysicalLocation = {
+      artifactLocation: { uri: toArtifactUri(msg.filePath, options.baseDir) },
+    };
+    if (msg.range) {
+      physicalLocation.region = toRegion(msg.range);
+    } else if (msg.line > 0) {
+      physicalLocation.region = { startLine: msg.line };
+    }
+
+    const result: SarifResult = {
+      ruleId: rule.id,
+      ruleIndex,
+      level: LEVEL_MAP[msg.severity],
+      message: { text: msg.context ? `${msg.message}\n${msg.context}` : msg.message },
+      locations: [{ physicalLocation }],
+    };
+
+    if (msg.relatedLocations?.length) {
+      result.relatedLocations = msg.relatedLocations.map((related, id) => ({
+        id,
+        physicalLocation: {
+          artifactLocation: { uri: toArtifactUri(related.filePath, options.baseDir) },
+          region: toRegion(related),
+        },
+        message: { text: related.message },
+      }));
+    }
+
+    const fixes = toFixes(msg, options.baseDir);
+    if (fixes.length > 0) {
+      result.fixes = fixes;
+    }
+
+    return result;
+  });
+
+  const notifications = fileErrors.map(({ filePath, error }) => ({
+    level: 'error' as const,
+    message: { text: error },
+    locations: [{ physicalLocation: { artifactLocation: { uri: toArtifactUri(filePath, options.baseDir) } } }],
+  }));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'mod-validator',
+            version: options.toolVersion,
+            informationUri: 'https://github.com/rcfox/HorizonsGateModValidator',
+            rules,
+          },
+        },
+        invocations: [{ executionSuccessful: true, toolExecutionNotifications: notifications }],
+        results,
+      },
+    ],
+  };
+}
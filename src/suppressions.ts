@@ -0,0 +1,219 @@
+/**
+ * Inline suppression comments
+ *
+ * Comment directives turn rules off for parts of a mod file:
+ *
+ *   -- modval-disable-next-line unknown-property
+ *   effect=foo; -- modval-disable-line unknown-reference
+ *   -- modval-disable duplicate-id, unknown-reference
+ *   ...
+ *   -- modval-enable duplicate-id
+ *   -- modval-disable-file custom-element
+ *
+ * A directive without rule IDs applies to every rule. Text after a second "--" is a reason, and is ignored.
+ * A modval-disable without a matching modval-enable lasts until the end of the file.
+ */
+
+import type { Correction, PositionInfo, Token, ValidationMessage } from './types.js';
+import { isRuleId, RULE_IDS, type RuleId } from './rules.js';
+import { findSimilar } from './string-similarity.js';
+
+const DIRECTIVE_PREFIX = 'modval-';
+
+const DIRECTIVES = ['disable-next-line', 'disable-line', 'disable', 'enable', 'disable-file'] as const;
+
+type Directive = (typeof DIRECTIVES)[number];
+
+export interface Suppression {
+  filePath: string;
+  ruleIds: RuleId[] | null; // null for every rule
+  startLine: number;
+  endLine: number; // Inclusive; Infinity for the rest of the file
+  directive: PositionInfo; // The comment, for reporting it as unused
+  usedRuleIds: Set<RuleId>; // Rules of the messages this suppression has dropped
+}
+
+/**
+ * Rules whose messages are about suppression comments themselves, which can't be suppressed by them
+ */
+const SUPPRESSION_RULES: RuleId[] = ['invalid-suppression', 'unused-suppression'];
+
+function isDirective(value: string): value is Directive {
+  return (DIRECTIVES as readonly string[]).includes(value);
+}
+
+/**
+ * Find suppression directives in a file's comments
+ *
+ * @returns The suppressions, and messages for directives that can't be understood
+ */
+export function parseSuppressions(
+  comments: Token[],
+  filePath: string
+): { suppressions: Suppression[]; messages: ValidationMessage[] } {
+  const suppressions: Suppression[] = [];
+  const messages: ValidationMessage[] = [];
+  const openDisables: Suppression[] = [];
+
+  const wordRange = (comment: Token, offset: number, word: string): PositionInfo => ({
+    startLine: comment.line,
+    startColumn: comment.column + offset,
+    endLine: comment.line,
+    endColumn: comment.column + offset + word.length,
+  });
+  const invalid = (message: string, range: PositionInfo, context: string, corrections: Correction[] = []) => {
+    messages.push({
+      ruleId: 'invalid-suppression',
+      severity: 'warning',
+      message,
+      filePath,
+      line: range.startLine,
+      range,
+      context,
+      corrections,
+    });
+  };
+
+  for (const comment of comments) {
+    // "-- modval-<directive> <rule IDs> -- <reason>"
+    const match = /^--\s*(modval-[\w-]*)/.exec(comment.value);
+    if (!match?.[1]) continue;
+
+    const name = match[1];
+    const nameRange = wordRange(comment, match[0].length - name.length, name);
+    const directive = name.slice(DIRECTIVE_PREFIX.length);
+    if (!isDirective(directive)) {
+      const directiveNames = DIRECTIVES.map(d => DIRECTIVE_PREFIX + d);
+      invalid(
+        `Unknown suppression directive '${name}'`,
+        nameRange,
+        `Directives are ${directiveNames.join(', ')}`,
+        findSimilar(name, directiveNames).map(s => ({ filePath, ...nameRange, replacementText: s.value }))
+      );
+      continue;
+    }
+
+    // Rule IDs are separated by commas or spaces, up to an optional "-- reason"
+    const rulesStart = match[0].length;
+    const reasonStart = comment.value.indexOf('--', rulesStart);
+    const rulesText = comment.value.slice(rulesStart, reasonStart === -1 ? undefined : reasonStart);
+    const ruleMatches = Array.from(rulesText.matchAll(/[^\s,]+/g));
+    const ruleIds: RuleId[] = [];
+    for (const ruleMatch of ruleMatches) {
+      const ruleId = ruleMatch[0];
+      if (isRuleId(ruleId) && !SUPPRESSION_RULES.includes(ruleId)) {
+        ruleIds.push(ruleId);
+        continue;
+      }
+      const ruleRange = wordRange(comment, rulesStart + (ruleMatch.index ?? 0), ruleId);
+      invalid(
+        isRuleId(ruleId) ? `Rule '${ruleId}' can't be suppressed by comments` : `Unknown rule '${ruleId}'`,
+        ruleRange,
+        `In ${name} directive`,
+        findSimilar(ruleId, RULE_IDS).map(s => ({ filePath, ...ruleRange, replacementText: s.value }))
+      );
+    }
+
+    // A directive whose rule IDs are all invalid shouldn't fall back to suppressing every rule
+    if (ruleMatches.length > 0 && ruleIds.length === 0) continue;
+
+    const directiveRange = wordRange(comment, 0, comment.value);
+    const suppression = (startLine: number, endLine: number): Suppression => ({
+      filePath,
+      ruleIds: ruleIds.length > 0 ? ruleIds : null,
+      startLine,
+      endLine,
+      directive: directiveRange,
+      usedRuleIds: new Set(),
+    });
+
+    switch (directive) {
+      case 'disable-next-line':
+        suppressions.push(suppression(comment.line + 1, comment.line + 1));
+        break;
+      case 'disable-line':
+        suppressions.push(suppression(comment.line, comment.line));
+        break;
+      case 'disable-file':
+        suppressions.push(suppression(0, Infinity));
+        break;
+      case 'disable': {
+        const disable = suppression(comment.line, Infinity);
+        suppressions.push(disable);
+        openDisables.push(disable);
+        break;
+      }
+      case 'enable': {
+        // Close every open disable, or those for the listed rules
+        const closing = openDisables.filter(
+          disable => ruleIds.length === 0 || disable.ruleIds?.some(ruleId => ruleIds.includes(ruleId))
+        );
+        if (closing.length === 0) {
+          invalid(`${name} without a matching ${DIRECTIVE_PREFIX}disable`, directiveRange, comment.value.trim());
+        }
+        for (const disable of closing) {
+          disable.endLine = comment.line;
+          openDisables.splice(openDisables.indexOf(disable), 1);
+        }
+        break;
+      }
+    }
+  }
+
+  return { suppressions, messages };
+}
+
+/**
+ * Find the suppression that applies to a message, if any
+ */
+function findSuppression(msg: ValidationMessage, suppressions: Suppression[]): Suppression | undefined {
+  if (SUPPRESSION_RULES.includes(msg.ruleId)) {
+    return undefined;
+  }
+  return suppressions.find(
+    suppression =>
+      suppression.filePath === msg.filePath &&
+      msg.line >= suppression.startLine &&
+      msg.line <= suppression.endLine &&
+      (suppression.ruleIds === null || suppression.ruleIds.includes(msg.ruleId))
+  );
+}
+
+/**
+ * Drop the messages that are suppressed, recording which suppressions were used
+ */
+export function applySuppressions(messages: ValidationMessage[], suppressions: Suppression[]): ValidationMessage[] {
+  return messages.filter(msg => {
+    const suppression = findSuppression(msg, suppressions);
+    suppression?.usedRuleIds.add(msg.ruleId);
+    return !suppression;
+  });
+}
+
+/**
+ * Report suppressions (or the rule IDs listed in them) that didn't drop any messages
+ */
+export function getUnusedSuppressionMessages(suppressions: Suppression[]): ValidationMessage[] {
+  const messages: ValidationMessage[] = [];
+  for (const suppression of suppressions) {
+    const unusedRuleIds = suppression.ruleIds?.filter(ruleId => !suppression.usedRuleIds.has(ruleId)) ?? [];
+    if (suppression.ruleIds === null ? suppression.usedRuleIds.size > 0 : unusedRuleIds.length === 0) {
+      continue;
+    }
+
+    messages.push({
+      ruleId: 'unused-suppression',
+      severity: 'warning',
+      message:
+        suppression.ruleIds === null
+          ? 'Unused suppression: no messages were suppressed'
+          : `Unused suppression for ${unusedRuleIds.map(ruleId => `'${ruleId}'`).join(', ')}`,
+      filePath: suppression.filePath,
+      line: suppression.directive.startLine,
+      range: suppression.directive,
+      suggestion: 'Remove the directive, or the rule IDs that no longer report anything here',
+      isCrossFile: true,
+    });
+  }
+  return messages;
+}
@@ -16,6 +16,7 @@ import type {
   TaskUseCase,
   ParsedParameter,
   ParsedTaskString,
+  ParsedObject,
   PositionInfo,
   PropertyInfo,
   ValidationMessage,
@@ -23,8 +24,62 @@ import type {
 import { findSimilar, MAX_EDIT_DISTANCE } from './string-similarity.js';
 import { isValidFloat } from './value-validators.js';
 import { validateFormula } from './formula-validator.js';
+import { getValueRange, toAbsolutePosition } from './position-utils.js';
 import tasksJsonData from './tasks.json' with { type: 'json' };
 
+/**
+ * Object types whose specialEffect list entries are task strings
+ */
+const SPECIAL_EFFECT_TYPES = new Set(['DialogNode', 'DialogOption', 'DialogNodeOverride']);
+
+/**
+ * Check whether a property's values are task strings
+ *
+ * @param resolvedType - The object's type after type alias resolution
+ * @param name - The property name (without ! prefix or + suffixes)
+ * @param actorValue - The object's actorValue property, for ActorValueAffecter.magnitude
+ */
+export function isTaskStringProperty(resolvedType: string, name: string, actorValue: string | undefined): boolean {
+  return (
+    (SPECIAL_EFFECT_TYPES.has(resolvedType) && name === 'specialEffect') ||
+    (resolvedType === 'ActorValueAffecter' &&
+      name === 'magnitude' &&
+      (actorValue === 'task' || actorValue === 'trigger')) ||
+    (resolvedType === 'TriggerEffect' && name === 'taskString')
+  );
+}
+
+/**
+ * Find the properties of an object whose values are task strings
+ *
+ * Mirrors the context-aware task string validation in validator.ts and property-validator.ts:
+ * - DialogNode/DialogOption/DialogNodeOverride.specialEffect
+ * - ActorValueAffecter.magnitude when actorValue is "task" or "trigger"
+ * - TriggerEffect.taskString
+ *
+ * @param obj - The parsed object
+ * @param resolvedType - The object's type after type alias resolution
+ * @returns The task string properties (name without ! prefix or + suffixes, plus position info)
+ */
+export function getTaskStringProperties(
+  obj: ParsedObject,
+  resolvedType: string
+): Array<{ name: string; info: PropertyInfo }> {
+  const results: Array<{ name: string; info: PropertyInfo }> = [];
+  const actorValue = obj.properties.get('actorValue')?.value.trim();
+
+  for (const { name: propName, info } of obj.assignments) {
+    const name = propName.replace(/^!/, '').replace(/\++$/, '');
+    if (info.value.trim() === '') continue;
+
+    if (isTaskStringProperty(resolvedType, name, actorValue)) {
+      results.push({ name, info });
+    }
+  }
+
+  return results;
+}
+
 export class TaskValidator {
   private tasks: Map<string, TaskMetadata>;
   private taskAliasMap: Map<string, string>;
@@ -84,19 +139,23 @@ export class TaskValidator {
         }));
 
         messages.push({
+          ruleId: 'unknown-task',
           severity: 'error',
           message: `Unknown task: '${taskName}'`,
           filePath: propInfo.filePath,
           line: propInfo.valueStartLine,
+          range: getValueRange(propInfo),
           corrections,
         });
       } else {
         // No similar task names
         messages.push({
+          ruleId: 'unknown-task',
           severity: 'error',
           message: `Unknown task: '${taskName}'`,
           filePath: propInfo.filePath,
           line: propInfo.valueStartLine,
+          range: getValueRange(propInfo),
         });
       }
     }
@@ -151,19 +210,23 @@ export class TaskValidator {
 
         // These are hint messages because taskName might also refer to a trigger ID, which we don't validate yet.
         messages.push({
+          ruleId: 'unknown-task',
           severity: 'hint',
           message: `Unknown task: '${parsed.taskName}'`,
           filePath: propInfo.filePath,
           line: propInfo.valueStartLine + parsed.taskNamePosition.startLine,
+          range: toAbsolutePosition(parsed.taskNamePosition, propInfo.valueStartLine, propInfo.valueStartColumn),
           corrections,
         });
       } else {
         // No similar task names - might be a trigger name, report as hint
         messages.push({
+          ruleId: 'unknown-task',
           severity: 'hint',
           message: `Unknown task: '${parsed.taskName}'`,
           filePath: propInfo.filePath,
           line: propInfo.valueStartLine + parsed.taskNamePosition.startLine,
+          range: toAbsolutePosition(parsed.taskNamePosition, propInfo.valueStartLine, propInfo.valueStartColumn),
           context: 'Task name not found in tasks.json. This might be a trigger name (not yet validated).',
         });
       }
@@ -185,6 +248,23 @@ export class TaskValidator {
     return messages;
   }
 
+  /**
+   * Get metadata for every known task (canonical names only)
+   */
+  getTasks(): TaskMetadata[] {
+    return Array.from(this.tasks.values());
+  }
+
+  /**
+   * Resolve a task name or alias to its canonical task name
+   *
+   * @param taskName - The task name or alias
+   * @returns The canonical task name, or undefined if the task is unknown
+   */
+  resolveTaskName(taskName: string): string | undefined {
+    return this.taskAliasMap.get(taskName);
+  }
+
   /**
    * Parse a task string into task name and parameters with position tracking
    *
@@ -193,7 +273,7 @@ export class TaskValidator {
    * @param taskString - The raw task string (may contain newlines)
    * @returns Parsed task string with position-tracked elements
    */
-  private parseTaskString(taskString: string): ParsedTaskString {
+  parseTaskString(taskString: string): ParsedTaskString {
     // Split by comma while tracking positions
     const parts: Array<{ value: string; position: PositionInfo }> = [];
     let currentPart = '';
@@ -530,7 +610,8 @@ export class TaskValidator {
     const messages: ValidationMessage[] = [];
 
     // Convert relative position to absolute
-    const absoluteLine = propInfo.valueStartLine + parsed.startLine;
+    const range = toAbsolutePosition(parsed, propInfo.valueStartLine, propInfo.valueStartColumn);
+    const absoluteLine = range.startLine;
 
     switch (parsed.type) {
       case 'formula':
@@ -539,10 +620,12 @@ export class TaskValidator {
           // @G substitution - value will be filled at runtime, nothing to validate
         } else if (parsed.formula.trim() === '') {
           messages.push({
+            ruleId: 'invalid-task-parameter',
             severity: 'error',
             message: `${parsed.source} prefix requires non-empty formula`,
             filePath: propInfo.filePath,
             line: absoluteLine,
+            range,
             context: `Formula string cannot be empty`,
           });
         } else {
@@ -569,10 +652,12 @@ export class TaskValidator {
           // Skip empty check if @G is present (value will be filled at runtime)
           if (!parsed.globalVarName && parsed.value.trim() === '') {
             messages.push({
+              ruleId: 'invalid-task-parameter',
               severity: 'error',
               message: `${parsed.source} prefix requires non-empty value`,
               filePath: propInfo.filePath,
               line: absoluteLine,
+              range,
               context: parsed.source === '@A' ? 'Actor reference cannot be empty' : 'String value cannot be empty',
             });
           }
@@ -584,10 +669,12 @@ export class TaskValidator {
           // Skip empty check if @G is present (value will be filled at runtime)
           if (!parsed.globalVarName && parsed.value.trim() === '') {
             messages.push({
+              ruleId: 'invalid-task-parameter',
               severity: 'error',
               message: `${parsed.source} prefix requires non-empty value`,
               filePath: propInfo.filePath,
               line: absoluteLine,
+              range,
               context: parsed.source === '@T' ? 'Travel point ID cannot be empty' : 'Actor reference cannot be empty',
             });
           }
@@ -595,10 +682,12 @@ export class TaskValidator {
           // Skip validation if @G is present (value will be filled at runtime)
           if (!parsed.globalVarName && !isValidFloat(parsed.value)) {
             messages.push({
+              ruleId: 'invalid-task-parameter',
               severity: 'error',
               message: `Coordinate value must be a valid number`,
               filePath: propInfo.filePath,
               line: absoluteLine,
+              range,
               context: `Expected float value, got '${parsed.value}'`,
             });
           }
@@ -608,10 +697,12 @@ export class TaskValidator {
       case 'globalVarSubstitution':
         if (parsed.varName.trim() === '') {
           messages.push({
+            ruleId: 'invalid-task-parameter',
             severity: 'error',
             message: `@G prefix requires non-empty variable name`,
             filePath: propInfo.filePath,
             line: absoluteLine,
+            range,
             context: `Global variable name cannot be empty`,
           });
         }
@@ -621,20 +712,24 @@ export class TaskValidator {
         // Skip validation if @G is present (value will be filled at runtime)
         if (!parsed.globalVarName && isNaN(parsed.delayValue)) {
           messages.push({
+            ruleId: 'invalid-task-parameter',
             severity: 'error',
             message: `Delay value must be a valid number`,
             filePath: propInfo.filePath,
             line: absoluteLine,
+            range,
             context: `Expected float value for delay`,
           });
         }
         // Hint if delay is in the middle (not first, not last)
         if (paramIndex > 0 && paramIndex < totalParams - 1) {
           messages.push({
+            ruleId: 'task-delay-position',
             severity: 'hint',
             message: `Delay parameter (@) in middle of task string may be confusing`,
             filePath: propInfo.filePath,
             line: absoluteLine,
+            range,
             context: `Delay parameters are typically placed at the beginning or end of the task string`,
           });
         }
@@ -645,10 +740,12 @@ export class TaskValidator {
     if ('globalVarName' in parsed && parsed.globalVarName !== undefined) {
       if (parsed.globalVarName.trim() === '') {
         messages.push({
+          ruleId: 'invalid-task-parameter',
           severity: 'error',
           message: `@G prefix requires non-empty variable name`,
           filePath: propInfo.filePath,
           line: absoluteLine,
+          range,
           context: `Global variable name cannot be empty`,
         });
       }
@@ -676,6 +773,9 @@ export class TaskValidator {
     objectType?: string,
     propertyName?: string
   ): ValidationMessage[] {
+    // Count problems are reported on the whole task string
+    const range = getValueRange(propInfo);
+
     // Count how many parameters go to each array/field
     const destinations = this.inferParameterDestinations(parameters);
 
@@ -701,10 +801,12 @@ export class TaskValidator {
         const actualCount = destinationsWithImplicit[arrayName as keyof typeof destinationsWithImplicit] || 0;
         if (typeof actualCount === 'number' && actualCount < requiredCount) {
           messages.push({
+            ruleId: 'missing-task-parameter',
             severity: 'error',
             message: `Task '${taskName}' requires at least ${requiredCount} ${arrayName} parameter(s), but got ${actualCount}`,
             filePath: propInfo.filePath,
             line: propInfo.valueStartLine,
+            range,
             taskReference: taskName,
           });
         }
@@ -745,10 +847,12 @@ export class TaskValidator {
             : actualCount;
 
           messages.push({
+            ruleId: 'extra-task-parameter',
             severity: 'warning',
             message: `Task '${taskName}' expects at most ${maxExpected} ${arrayName} parameter(s), but got ${reportedCount}`,
             filePath: propInfo.filePath,
             line: propInfo.valueStartLine,
+            range,
             context: `Extra parameters may be ignored`,
             taskReference: taskName,
           });
@@ -797,10 +901,12 @@ export class TaskValidator {
           if (neededFloats > 0) {
             // Implicit float(s) are helping to meet requirements
             resultMessages.push({
+              ruleId: 'implicit-task-parameter',
               severity: 'info',
               message: `Task's float parameter is implicitly filled with 0`,
               filePath: propInfo.filePath,
               line: propInfo.valueStartLine,
+              range,
               context: `'${propertyName}' appends a value of 0 the end of the floats array to fill in a single missing value.`,
               suggestion: 'Add the 0 value explicitly',
               suggestionIsAction: true,
@@ -859,10 +965,12 @@ export class TaskValidator {
     // Emit error for each missing required parameter
     for (const missing of closestMatch.missingParams) {
       messages.push({
+        ruleId: 'missing-task-parameter',
         severity: 'error',
         message: `Task '${taskName}' is missing required parameter ${missing.param.name}`,
         filePath: propInfo.filePath,
         line: propInfo.valueStartLine,
+        range,
         context: missing.param.description,
         taskReference: taskName,
       });
@@ -871,10 +979,12 @@ export class TaskValidator {
     // If there are multiple use cases, emit info message
     if (task.uses.length > 1) {
       messages.push({
+        ruleId: 'ambiguous-task-use',
         severity: 'info',
         message: `Task '${taskName}' has ${task.uses.length} use cases. Check the documentation to confirm the intended use case.`,
         filePath: propInfo.filePath,
         line: propInfo.valueStartLine,
+        range,
         taskReference: taskName,
       });
     }
@@ -13,6 +13,7 @@
  */
 
 import { parseFormula, type ASTNode } from '../formula-parser.js';
+import { getASTTree, type ASTTreeNode } from '../formula-ast-tree.js';
 
 /**
  * Escapes special characters for DOT label strings
@@ -24,14 +25,6 @@ function escapeDotLabel(text: string | number): string {
     .replace(/"/g, '\\"'); // Then escape quotes
 }
 
-/**
- * TypeScript exhaustiveness check helper
- * Throws an error for unhandled cases in discriminated unions
- */
-function assertExhaustive(value: never): never {
-  throw new Error(`Unknown node type: ${JSON.stringify(value)}`);
-}
-
 /**
  * Converts an AST to DOT graph format for graphviz
  */
@@ -39,96 +32,20 @@ function astToDot(ast: ASTNode): string {
   let nodeCounter = 0;
   const lines: string[] = ['digraph AST {', '  node [shape=box];'];
 
-  function addNode(node: ASTNode): number {
+  function addNode(node: ASTTreeNode): number {
     const id = nodeCounter++;
+    const label = node.detail ? `${node.type}\\n${escapeDotLabel(node.detail)}` : node.type;
+    lines.push(`  n${id} [label="${label}"];`);
 
-    switch (node.type) {
-      case 'literal': {
-        const value = escapeDotLabel(node.value);
-        lines.push(`  n${id} [label="literal\\n${value}"];`);
-        break;
-      }
-
-      case 'variable': {
-        const name = escapeDotLabel(node.name);
-        lines.push(`  n${id} [label="variable\\n${name}"];`);
-        break;
-      }
-
-      case 'global': {
-        const name = escapeDotLabel(node.name);
-        lines.push(`  n${id} [label="global\\n${name}"];`);
-        break;
-      }
-
-      case 'function': {
-        const argsStr = node.args
-          .map(arg => {
-            if (arg.type === 'string') {
-              const value = escapeDotLabel(arg.value);
-              return `\\"${value}\\"`;
-            } else {
-              // functionStyle arg
-              const paramsStr = arg.params
-                .map(p => (p.type === 'literal' ? escapeDotLabel(p.value) : '...'))
-                .join(',');
-              const name = escapeDotLabel(arg.name);
-              return `${name}(${paramsStr})`;
-            }
-          })
-          .join(', ');
-        const funcName = escapeDotLabel(node.name.value);
-        lines.push(`  n${id} [label="function\\n${funcName}: ${argsStr}"];`);
-        if (node.body) {
-          const bodyId = addNode(node.body);
-          lines.push(`  n${id} -> n${bodyId} [label="body"];`);
-        }
-        break;
-      }
-
-      case 'mathFunction': {
-        lines.push(`  n${id} [label="mathFunction"];`);
-        const nameId = addNode(node.name);
-        lines.push(`  n${id} -> n${nameId} [label="name"];`);
-        if (node.argument) {
-          const argId = addNode(node.argument);
-          lines.push(`  n${id} -> n${argId} [label="arg"];`);
-        }
-        break;
-      }
-
-      case 'functionName': {
-        const name = escapeDotLabel(node.value);
-        lines.push(`  n${id} [label="functionName\\n${name}"];`);
-        break;
-      }
-
-      case 'binaryOp': {
-        const operator = escapeDotLabel(node.operator);
-        lines.push(`  n${id} [label="binaryOp\\n${operator}"];`);
-        const leftId = addNode(node.left);
-        const rightId = addNode(node.right);
-        lines.push(`  n${id} -> n${leftId} [label="left"];`);
-        lines.push(`  n${id} -> n${rightId} [label="right"];`);
-        break;
-      }
-
-      case 'unaryOp': {
-        const operator = escapeDotLabel(node.operator);
-        lines.push(`  n${id} [label="unaryOp\\n${operator}"];`);
-        const operandId = addNode(node.operand);
-        lines.push(`  n${id} -> n${operandId} [label="operand"];`);
-        break;
-      }
-
-      default:
-        assertExhaustive(node);
-    }
+    const childIds = node.children.map(addNode);
+    node.children.forEach((child, index) => {
+      lines.push(`  n${id} -> n${childIds[index]} [label="${child.edge ?? ''}"];`);
+    });
 
     return id;
   }
 
-  addNode(ast);
+  addNode(getASTTree(ast));
   lines.push('}');
 
   return lines.join('\n');
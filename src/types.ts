@@ -2,6 +2,8 @@
  * Core type definitions for mod validation
  */
 
+import type { RuleId } from './rules.js';
+
 export type FieldType =
   | 'boolean'
   | 'integer'
@@ -34,6 +36,7 @@ export interface FieldSchema {
   csType: string;
   virtual?: boolean;
   pattern?: boolean;
+  condition?: boolean; // Formula the game tests for being more than 0 (e.g., fReq)
 }
 
 /**
@@ -93,6 +96,14 @@ export interface SchemaData {
   enums: Record<string, Record<string, number>>;
 }
 
+/**
+ * IDs defined by the base game, extracted from its data files (vanilla-ids.json)
+ */
+export interface VanillaIdsData {
+  gameVersion: string;
+  definitions: Record<string, string[]>; // Definition type -> IDs
+}
+
 /**
  * Property with metadata and position information
  */
@@ -112,13 +123,22 @@ export interface PropertyInfo {
   valueEndColumn: number;
 }
 
+/**
+ * A single property assignment, as written in the file
+ */
+export interface PropertyAssignment {
+  name: string; // Property name including any ! prefix
+  info: PropertyInfo;
+}
+
 /**
  * Parsed object representation with position information
  */
 export interface ParsedObject {
   type: string;
   filePath: string;
-  properties: Map<string, PropertyInfo>;
+  properties: Map<string, PropertyInfo>; // Last assignment of each property (the one that takes effect)
+  assignments: PropertyAssignment[]; // Every assignment in file order, including repeated properties
   startLine: number;
   endLine: number;
 
@@ -167,11 +187,29 @@ export interface Correction {
   displayText?: string; // Optional display text (e.g., "filename:line")
 }
 
+/**
+ * Secondary location for a message (e.g., another copy of a duplicate ID)
+ * Uses the same line/column conventions as Correction
+ */
+export type RelatedLocation = WithPosition<{
+  filePath: string;
+  message: string;
+}>;
+
+/**
+ * A problem found by validation
+ * Every message about a file's text has a range; validate() gives messages that aren't about a specific span
+ * the range of their whole line. Messages about a whole file use line 0 and have no range, since there's no text
+ * to point into (e.g., the entries of a zip archive).
+ */
 export interface ValidationMessage {
+  ruleId: RuleId; // Stable identifier of the check that reported the message
   severity: ValidationSeverity;
   message: string;
   filePath: string;
-  line: number;
+  line: number; // 1-indexed, or 0 for messages about a whole file
+  range?: PositionInfo | undefined; // Exact span of the problem (same conventions as Correction)
+  relatedLocations?: RelatedLocation[] | undefined; // Other places involved in the problem (e.g., conflicting copies)
   context?: string | undefined;
   suggestion?: string | undefined; // Override text for corrections (e.g., "Add a semicolon" instead of "Did you mean:")
   suggestionIsAction?: boolean | undefined; // If true, then a list of corrections is not shown, only the suggestion, and it applies the first correction.
@@ -184,6 +222,13 @@ export interface ValidationMessage {
   documentationLabel?: string | undefined; // Label for the documentation link
 }
 
+/**
+ * Result of renaming a definition ID across files
+ * Either the edits to apply (one Correction per occurrence), or the reason the rename was refused
+ */
+export type RenameResult =
+  { corrections: Correction[]; error?: undefined } | { corrections?: undefined; error: string };
+
 export interface ValidationResult {
   errors: ValidationMessage[];
   warnings: ValidationMessage[];
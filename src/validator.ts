@@ -3,20 +3,100 @@
  * Orchestrates all validation steps
  */
 
-import { ValidationResult, ValidationMessage, ModSchema, ParsedObject, SchemaData, ClassSchema } from './types.js';
+import {
+  ValidationResult,
+  ValidationMessage,
+  ModSchema,
+  ParsedObject,
+  PropertyInfo,
+  PositionInfo,
+  RelatedLocation,
+  RenameResult,
+  Correction,
+  SchemaData,
+  ClassSchema,
+  VanillaIdsData,
+} from './types.js';
 import { ModParser } from './parser.js';
+import { parseFormula, type ASTNode } from './formula-parser.js';
 import { PropertyValidator } from './property-validator.js';
 import { findSimilar, MAX_EDIT_DISTANCE } from './string-similarity.js';
+import { ReferenceIndex, type IdDefinition, type IdReference } from './reference-index.js';
+import { InheritanceResolver, type ResolvedInheritance } from './inheritance-resolver.js';
+import { GlobalVarIndex, type GlobalVarAccess } from './global-var-index.js';
+import { applyConfig, type ModValidatorConfig } from './config.js';
+import {
+  applySuppressions,
+  getUnusedSuppressionMessages,
+  parseSuppressions,
+  type Suppression,
+} from './suppressions.js';
+import {
+  containsPosition,
+  copyPosition,
+  getLineRange,
+  getNameRange,
+  getTypeRange,
+  getValueRange,
+} from './position-utils.js';
 import modSchemaData from './mod-schema.json' with { type: 'json' };
 
+/**
+ * Object types that follow an [Action] and repeat its ID
+ */
+const ACTION_SUB_OBJECT_TYPES = ['ActionAoE', 'AvAffecter', 'AvAffecterAoE'];
+
+/**
+ * Check whether a global formula reads x (including passing it on, e.g., d:other(x))
+ * Formulas that don't parse are reported by formula validation, so they're treated as not using x
+ */
+function formulaUsesX(formula: string | undefined): boolean {
+  let ast: ASTNode;
+  try {
+    ast = parseFormula(formula ?? '');
+  } catch {
+    return false;
+  }
+
+  const visit = (node: ASTNode | undefined): boolean => {
+    if (!node) return false;
+    switch (node.type) {
+      case 'variable':
+        return true;
+      case 'function':
+        return node.args.some(arg => arg.type === 'functionStyle' && arg.params.some(visit)) || visit(node.body);
+      case 'binaryOp':
+        return visit(node.left) || visit(node.right);
+      case 'unaryOp':
+        return visit(node.operand);
+      case 'global':
+      case 'mathFunction':
+        return visit(node.argument);
+      case 'literal':
+      case 'functionName':
+        return false;
+    }
+  };
+
+  return visit(ast);
+}
+
 export class ModValidator {
   private schema: ModSchema;
   private typeAliases: Record<string, string>;
   private functionalAliases: Record<string, string>;
   private propertyValidator = new PropertyValidator();
   private parsedObjectsCache: Map<string, ParsedObject[]> = new Map();
+  private referenceIndexCache: ReferenceIndex | null = null; // Rebuilt when the parsed objects cache changes
+  private suppressionsCache: Map<string, Suppression[]> = new Map(); // Suppression comments of each file
+  private config: ModValidatorConfig | null = null;
+  private toConfigPath: (filePath: string) => string = filePath => filePath;
 
-  constructor() {
+  /**
+   * @param baseGameIds - Base game ID catalog to use instead of the bundled vanilla-ids.json
+   *                      (e.g., one extracted from a local copy of the game's data)
+   */
+  constructor(private baseGameIds?: VanillaIdsData) {
     const data = modSchemaData as SchemaData;
     this.schema = data.schema;
     this.typeAliases = data.typeAliases;
@@ -27,19 +107,51 @@ export class ModValidator {
     return this.typeAliases[typeName] || typeName;
   }
 
+  /**
+   * Use a project config (rule settings) for all messages reported from now on, or stop using one
+   *
+   * @param toConfigPath - Converts a validated file path to a /-separated path relative to the config file's
+   *                       directory, for matching override globs (defaults to using the file path as-is)
+   */
+  setConfig(
+    config: ModValidatorConfig | null,
+    toConfigPath: (filePath: string) => string = filePath => filePath
+  ): void {
+    this.config = config;
+    this.toConfigPath = toConfigPath;
+  }
+
+  /**
+   * Apply the project config's rule settings, if there is one
+   * Used for all of the validator's own messages, and available for messages reported alongside them
+   */
+  applyConfig(messages: ValidationMessage[]): ValidationMessage[] {
+    return this.config ? applyConfig(messages, this.config, this.toConfigPath) : messages;
+  }
+
   validate(content: string, filePath: string): ValidationResult {
     const parser = new ModParser(content, filePath);
 
-    const { objects, errors: parseErrors } = parser.parse();
+    const { objects, errors: parseErrors, comments } = parser.parse();
+    const { suppressions, messages: suppressionMessages } = parseSuppressions(comments, filePath);
 
-    // Cache parsed objects for cross-file validation
+    // Cache parsed objects and suppressions for cross-file validation
     this.parsedObjectsCache.set(filePath, objects);
+    this.suppressionsCache.set(filePath, suppressions);
+    this.referenceIndexCache = null;
 
     const objMessages = objects.flatMap(obj => this.validateObject(obj));
     const structureMessages = this.validateActionStructures(objects);
     // NOTE: checkDuplicateIds now runs separately via getCrossFileValidationMessages()
 
-    const allMessages = [...parseErrors, ...objMessages, ...structureMessages];
+    // Messages that aren't about a specific span cover their whole line
+    const lines = content.split('\n');
+    const allMessages = this.applyConfig(
+      [
+        ...applySuppressions([...parseErrors, ...objMessages, ...structureMessages], suppressions),
+        ...suppressionMessages,
+      ].map(msg => (msg.range ? msg : { ...msg, range: getLineRange(lines, msg.line) }))
+    );
 
     const errors = allMessages.filter(m => m.severity === 'error');
     const warnings = allMessages.filter(m => m.severity === 'warning');
@@ -56,11 +168,196 @@ export class ModValidator {
 
   /**
    * Get validation messages that require checking across all files
-   * (e.g., duplicate IDs across files)
+   * (e.g., duplicate IDs across files, references to undefined IDs, cloneFrom inheritance, global formulas,
+   * global variables)
    */
   getCrossFileValidationMessages(): ValidationMessage[] {
     const allObjects = Array.from(this.parsedObjectsCache.values()).flat();
-    return this.checkDuplicateIds(allObjects);
+    const index = this.getReferenceIndex();
+
+    // Suppressions used by per-file messages stay used; copies keep this call from affecting the next one
+    const suppressions = Array.from(this.suppressionsCache.values())
+      .flat()
+      .map(suppression => ({ ...suppression, usedRuleIds: new Set(suppression.usedRuleIds) }));
+
+    const messages = applySuppressions(
+      [
+        ...this.checkDuplicateIds(allObjects),
+        ...this.checkDanglingReferences(index),
+        ...this.checkCloneFromInheritance(allObjects, index),
+        ...this.checkGlobalFormulas(index),
+        ...this.checkGlobalVariables(new GlobalVarIndex(allObjects)),
+      ],
+      suppressions
+    );
+    return this.applyConfig([...messages, ...getUnusedSuppressionMessages(suppressions)]);
+  }
+
+  /**
+   * Build an index of definition IDs and the references to them across all cached files
+   */
+  getReferenceIndex(): ReferenceIndex {
+    this.referenceIndexCache ??= new ReferenceIndex(
+      Array.from(this.parsedObjectsCache.values()).flat(),
+      this.baseGameIds
+    );
+    return this.referenceIndexCache;
+  }
+
+  /**
+   * Find the ID at a position in a cached file: a definition's own ID or cloneFrom value,
+   * an Action sub-object's ID, or any indexed reference (ID fields, instance IDs, task and formula arguments)
+   * A position right after the ID also counts, so editors can navigate from the cursor at the end of a word
+   *
+   * @param line - Line (1-indexed)
+   * @param column - Column (0-indexed)
+   * @returns The definition type and ID, or null if there's no ID at the position
+   */
+  getIdAt(filePath: string, line: number, column: number): { type: string; id: string } | null {
+    const atPosition = (range: PositionInfo) =>
+      containsPosition(range, line, column) || containsPosition(range, line, column - 1);
+
+    const ref = this.getReferenceIndex()
+      .getReferences()
+      .find(candidate => candidate.filePath === filePath && atPosition(candidate));
+    if (ref) {
+      return { type: ref.targetType, id: ref.id };
+    }
+
+    for (const obj of this.parsedObjectsCache.get(filePath) ?? []) {
+      // An Action's sub-objects repeat the Action's ID
+      const idProp = obj.properties.get('ID');
+      if (ACTION_SUB_OBJECT_TYPES.includes(this.resolveFunctionalAlias(obj.type)) && idProp) {
+        if (atPosition(getValueRange(idProp))) {
+          return { type: 'Action', id: idProp.value.trim() };
+        }
+        continue;
+      }
+
+      if (this.schema[this.resolveTypeAlias(obj.type)]?.category !== 'definition') continue;
+
+      for (const propertyName of ['ID', 'cloneFrom']) {
+        const prop = obj.properties.get(propertyName);
+        const id = prop?.value.trim();
+        if (prop && id && atPosition(getValueRange(prop))) {
+          return { type: this.resolveFunctionalAlias(obj.type), id };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find where the ID at a position is defined, across all cached files (go to definition)
+   */
+  findDefinitions(filePath: string, line: number, column: number): IdDefinition[] {
+    const target = this.getIdAt(filePath, line, column);
+    return target ? this.getReferenceIndex().getDefinitions(target.type, target.id) : [];
+  }
+
+  /**
+   * Find every reference to the ID at a position, across all cached files (find all references)
+   */
+  findReferences(filePath: string, line: number, column: number): IdReference[] {
+    const target = this.getIdAt(filePath, line, column);
+    return target ? this.getReferenceIndex().getReferencesTo(target.type, target.id) : [];
+  }
+
+  /**
+   * Get every reference to a definition object's ID (inbound references)
+   */
+  getReferencesToObject(obj: ParsedObject): IdReference[] {
+    const id = obj.properties.get('ID')?.value.trim();
+    if (!id || this.schema[this.resolveTypeAlias(obj.type)]?.category !== 'definition') {
+      return [];
+    }
+    return this.getReferenceIndex().getReferencesTo(this.resolveFunctionalAlias(obj.type), id);
+  }
+
+  /**
+   * Rename the definition ID at a position, across all cached files
+   * Covers the definitions' own IDs, every reference to them (ID fields, instance IDs, cloneFrom values,
+   * task and formula arguments) and, for Actions, the matching ActionAoE/AvAffecter/AvAffecterAoE IDs
+   *
+   * @param line - Line (1-indexed)
+   * @param column - Column (0-indexed)
+   * @param newId - The ID to rename to
+   * @returns Corrections for every occurrence, or an error if the rename isn't safe
+   */
+  renameId(filePath: string, line: number, column: number, newId: string): RenameResult {
+    const target = this.getIdAt(filePath, line, column);
+    if (!target) {
+      return { error: 'No ID to rename at this position' };
+    }
+
+    const index = this.getReferenceIndex();
+    const definitions = index.getDefinitions(target.type, target.id);
+    if (definitions.length === 0) {
+      return { error: `${target.type} '${target.id}' is not defined in the loaded files` };
+    }
+    if (!/^[^\s;,:=[\]()<>+*/]+$/.test(newId)) {
+      return { error: `'${newId}' is not a valid ID` };
+    }
+    if (newId === target.id) {
+      return { error: `${target.type} is already named '${newId}'` };
+    }
+    if (index.isDefined(target.type, newId)) {
+      const where = index.isBaseGameId(target.type, newId) ? 'in the base game' : 'in the loaded files';
+      return { error: `${target.type} '${newId}' is already defined ${where}` };
+    }
+
+    // Keyed by position, since the same span can be both a definition and a reference (e.g., an Item's ID)
+    const corrections = new Map<string, Correction>();
+    const addCorrection = (range: PositionInfo, correctionFilePath: string) => {
+      corrections.set(`${correctionFilePath}:${range.startLine}:${range.startColumn}`, {
+        filePath: correctionFilePath,
+        ...copyPosition(range),
+        replacementText: newId,
+      });
+    };
+
+    for (const def of definitions) {
+      addCorrection(getValueRange(def.idProperty), def.idProperty.filePath);
+
+      // Extending a definition clones from its own ID, which isn't indexed as a reference
+      const cloneFromProp = def.object.properties.get('cloneFrom');
+      if (cloneFromProp?.value.trim() === target.id) {
+        addCorrection(getValueRange(cloneFromProp), cloneFromProp.filePath);
+      }
+
+      // The Action's sub-objects repeat its ID
+      if (target.type === 'Action') {
+        let next = def.object.nextObject;
+        while (next && ACTION_SUB_OBJECT_TYPES.includes(this.resolveFunctionalAlias(next.type))) {
+          const idProp = next.properties.get('ID');
+          if (idProp?.value === target.id) {
+            addCorrection(getValueRange(idProp), idProp.filePath);
+          }
+          next = next.nextObject;
+        }
+      }
+    }
+
+    for (const ref of index.getReferencesTo(target.type, target.id)) {
+      addCorrection(ref, ref.filePath);
+    }
+
+    return { corrections: Array.from(corrections.values()) };
+  }
+
+  /**
+   * Build a symbol table of global variable writes and reads across all cached files
+   */
+  getGlobalVarIndex(): GlobalVarIndex {
+    return new GlobalVarIndex(Array.from(this.parsedObjectsCache.values()).flat());
+  }
+
+  /**
+   * Build a resolver for cloneFrom inheritance across all cached files
+   */
+  getInheritanceResolver(): InheritanceResolver {
+    return new InheritanceResolver(Array.from(this.parsedObjectsCache.values()).flat(), this.getReferenceIndex());
   }
 
   /**
@@ -68,6 +365,8 @@ export class ModValidator {
    */
   clearCache(): void {
     this.parsedObjectsCache.clear();
+    this.suppressionsCache.clear();
+    this.referenceIndexCache = null;
   }
 
   /**
@@ -75,6 +374,8 @@ export class ModValidator {
    */
   removeFromCache(filePath: string): void {
     this.parsedObjectsCache.delete(filePath);
+    this.suppressionsCache.delete(filePath);
+    this.referenceIndexCache = null;
   }
 
   /**
@@ -97,8 +398,8 @@ export class ModValidator {
    * Check if two ParsedObjects are identical (have the same properties with the same values)
    */
   private areObjectsIdentical(obj1: ParsedObject, obj2: ParsedObject): boolean {
-    // Different number of properties means not identical
-    if (obj1.properties.size !== obj2.properties.size) {
+    // Different number of properties (or of repeated assignments) means not identical
+    if (obj1.properties.size !== obj2.properties.size || obj1.assignments.length !== obj2.assignments.length) {
       return false;
     }
 
@@ -114,6 +415,15 @@ export class ModValidator {
       }
     }
 
+    // Repeated properties (e.g. list entries) must have the same values in the same order
+    const valuesOf = (obj: ParsedObject, propName: string) =>
+      obj.assignments.filter(({ name }) => name === propName).map(({ info }) => info.value.trim());
+    for (const propName of obj1.properties.keys()) {
+      if (valuesOf(obj1, propName).join('\n') !== valuesOf(obj2, propName).join('\n')) {
+        return false;
+      }
+    }
+
     return true;
   }
 
@@ -225,10 +535,13 @@ export class ModValidator {
           }
 
           messages.push({
+            ruleId: 'identical-duplicate-id',
             severity: 'info',
             message: `ID '${objId}' for ${resolvedType} has ${group.length} identical copies`,
             filePath: firstIdProp.filePath,
             line: firstIdProp.valueStartLine,
+            range: getValueRange(firstIdProp),
+            relatedLocations: this.idLocations(group.slice(1), 'Identical copy'),
             suggestion: 'Consider removing redundant copies:',
             correctionIcon: '🎯',
             corrections,
@@ -383,10 +696,19 @@ export class ModValidator {
             if (group.length > 1) {
               // Multiple identical copies in this group
               messages.push({
+                ruleId: 'identical-duplicate-id',
                 severity: 'info',
                 message: `ID '${objId}' for ${resolvedType} has ${group.length} identical copies (part of ${objs.length} total conflicting definitions)`,
                 filePath: firstIdProp.filePath,
                 line: firstIdProp.valueStartLine,
+                range: getValueRange(firstIdProp),
+                relatedLocations: [
+                  ...this.idLocations(group.slice(1), 'Identical copy'),
+                  ...this.idLocations(
+                    objs.filter(obj => !group.includes(obj)),
+                    'Conflicting definition'
+                  ),
+                ],
                 context: `This is one of ${groups.length} different versions.`,
                 suggestion: 'Identical instances:',
                 correctionIcon: '🎯',
@@ -396,10 +718,16 @@ export class ModValidator {
             } else {
               // Single object in this group (unique definition among the duplicates)
               messages.push({
+                ruleId: 'duplicate-id',
                 severity: 'warning',
                 message: `ID '${objId}' for ${resolvedType} conflicts with ${objs.length - 1} other definition(s)`,
                 filePath: firstIdProp.filePath,
                 line: firstIdProp.valueStartLine,
+                range: getValueRange(firstIdProp),
+                relatedLocations: this.idLocations(
+                  objs.filter(obj => obj !== firstObj),
+                  'Conflicting definition'
+                ),
                 suggestion: `Conflicting properties:`,
                 correctionIcon: '🎯',
                 corrections,
@@ -414,6 +742,457 @@ export class ModValidator {
     return messages;
   }
 
+  /**
+   * Report ID references that don't resolve to a definition in any loaded file or the base game
+   * IDs may still be defined by another mod, so unresolved references are hints
+   * unless a similarly-named ID is known (likely a typo)
+   * For types the base game catalog doesn't list, the context notes that the base game may define the ID
+   */
+  private checkDanglingReferences(index: ReferenceIndex): ValidationMessage[] {
+    const messages: ValidationMessage[] = [];
+
+    for (const ref of index.getReferences()) {
+      // Missing cloneFrom bases are reported by checkCloneFromInheritance()
+      if (ref.kind === 'cloneFrom' || index.isDefined(ref.targetType, ref.id)) {
+        continue;
+      }
+
+      const knownIds = [...index.getDefinedIds(ref.targetType), ...index.getBaseGameIds(ref.targetType)];
+      const similar = findSimilar(ref.id, knownIds, MAX_EDIT_DISTANCE);
+      const catalogued = index.hasBaseGameIds(ref.targetType);
+      const source =
+        ref.kind === 'instance' ? `[${ref.sourceObject.type}] ID` : `${ref.sourceObject.type}.${ref.propertyName}`;
+
+      const corrections = similar.map(s => ({
+        filePath: ref.filePath,
+        startLine: ref.startLine,
+        startColumn: ref.startColumn,
+        endLine: ref.endLine,
+        endColumn: ref.endColumn,
+        replacementText: s.value,
+      }));
+
+      messages.push({
+        ruleId: 'unknown-reference',
+        severity: similar.length > 0 ? 'warning' : 'hint',
+        message: `Unknown ${ref.targetType} ID '${ref.id}' referenced by ${source}`,
+        filePath: ref.filePath,
+        line: ref.startLine,
+        range: copyPosition(ref),
+        context: catalogued
+          ? `No ${ref.targetType} with this ID is defined in the loaded files or known base game IDs`
+          : `No ${ref.targetType} with this ID is defined in the loaded files (it may be defined by the base game)`,
+        corrections,
+        isCrossFile: true,
+      });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Check cloneFrom chains: missing bases, cycles, self-clones with nothing to extend,
+   * and objects (including the structure of Actions) after inheriting from their bases
+   */
+  private checkCloneFromInheritance(objects: ParsedObject[], index: ReferenceIndex): ValidationMessage[] {
+    const messages: ValidationMessage[] = [];
+    const resolver = new InheritanceResolver(objects, index);
+    const reportedCycles = new Set<ParsedObject>();
+
+    for (const obj of objects) {
+      const cloneFromProp = obj.properties.get('cloneFrom');
+      const id = obj.properties.get('ID')?.value.trim();
+      if (!cloneFromProp || !id || !resolver.supportsCloneFrom(obj)) {
+        continue;
+      }
+
+      const resolvedType = this.resolveFunctionalAlias(obj.type);
+      const resolved = resolver.resolve(obj);
+
+      // Only report a missing base on the object that names it
+      if (resolved.status === 'missingBase' && resolved.chain.length === 1 && resolved.missingBaseId) {
+        const isSelfClone = resolver.isSelfClone(obj);
+        const definedIds = [...index.getDefinedIds(resolvedType), ...index.getBaseGameIds(resolvedType)];
+        messages.push(
+          this.missingBaseMessage(
+            resolvedType,
+            id,
+            resolved.missingBaseId,
+            isSelfClone,
+            definedIds,
+            index.hasBaseGameIds(resolvedType),
+            cloneFromProp
+          )
+        );
+      }
+
+      if (resolved.status === 'cycle' && resolved.cycle?.includes(obj) && !reportedCycles.has(obj)) {
+        resolved.cycle.forEach(member => reportedCycles.add(member));
+
+        // Describe the loop starting from this object
+        const start = resolved.cycle.indexOf(obj);
+        const loop = [...resolved.cycle.slice(start), ...resolved.cycle.slice(0, start)];
+        const ids = [...loop, obj].map(member => member.properties.get('ID')?.value.trim() ?? '');
+
+        messages.push({
+          ruleId: 'clone-from-cycle',
+          severity: 'error',
+          message: `cloneFrom cycle for ${resolvedType}: ${ids.join(' → ')}`,
+          filePath: cloneFromProp.filePath,
+          line: cloneFromProp.valueStartLine,
+          range: getValueRange(cloneFromProp),
+          relatedLocations: loop.slice(1).flatMap(member => {
+            const info = member.properties.get('cloneFrom');
+            if (!info) return [];
+            const memberId = member.properties.get('ID')?.value.trim() ?? '';
+            return [
+              {
+                filePath: info.filePath,
+                ...getValueRange(info),
+                message: `'${memberId}' clones from '${info.value.trim()}'`,
+              },
+            ];
+          }),
+          context: 'None of these objects can be created because each one clones from another in the loop',
+          suggestion: 'cloneFrom properties in the cycle:',
+          correctionIcon: '🎯',
+          corrections: loop.flatMap(member => {
+            const info = member.properties.get('cloneFrom');
+            if (!info) return [];
+            return [
+              {
+                filePath: info.filePath,
+                startLine: info.valueStartLine,
+                startColumn: info.valueStartColumn,
+                endLine: info.valueEndLine,
+                endColumn: info.valueEndColumn,
+                replacementText: info.value, // Same as original (for navigation only)
+                displayText: `${info.filePath}:${info.valueStartLine}`,
+              },
+            ];
+          }),
+          isCrossFile: true,
+        });
+      }
+
+      if (resolved.status !== 'cycle' && resolved.chain.length > 1) {
+        messages.push(...this.validateEffectiveObject(resolved));
+      }
+
+      if (resolvedType === 'Action' && resolved.status === 'complete') {
+        messages.push(...this.validateEffectiveActionStructure(obj, id, resolved.chain));
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Validate an object as it is after inheriting properties through cloneFrom
+   * Messages that the object or its bases already get on their own are left out,
+   * so only problems with the combined properties are reported
+   */
+  private validateEffectiveObject(resolved: ResolvedInheritance): ValidationMessage[] {
+    // Messages are matched by position, since their text can name the type each object was declared as
+    const key = (msg: ValidationMessage) => [msg.ruleId, msg.filePath, JSON.stringify(msg.range ?? msg.line)].join('|');
+    const ownMessages = new Set(resolved.chain.flatMap(link => this.validateObject(link)).map(key));
+
+    const effective: ParsedObject = {
+      ...resolved.object,
+      properties: resolved.properties,
+      assignments: resolved.assignments,
+    };
+    return this.validateObject(effective)
+      .filter(msg => !ownMessages.has(key(msg)))
+      .map(msg => ({ ...msg, isCrossFile: true }));
+  }
+
+  /**
+   * Check references between global formulas ([FormulaGlobal]/[GlobalFormula]):
+   * formulas that use x must be given a value for it, and formulas must not use each other in a loop
+   * Missing global formulas are reported with the other unknown references
+   */
+  private checkGlobalFormulas(index: ReferenceIndex): ValidationMessage[] {
+    const messages: ValidationMessage[] = [];
+    const references = index.getReferences().filter(ref => ref.targetType === 'GlobalFormula');
+
+    const usesX = new Map<string, boolean>();
+    for (const id of index.getDefinedIds('GlobalFormula')) {
+      usesX.set(
+        id,
+        index.getDefinitions('GlobalFormula', id).some(def => formulaUsesX(def.object.properties.get('formula')?.value))
+      );
+    }
+
+    for (const ref of references) {
+      if (ref.passesArgument || !usesX.get(ref.id)) continue;
+      messages.push({
+        ruleId: 'global-formula-missing-x',
+        severity: 'warning',
+        message: `Global formula '${ref.id}' uses x, but ${ref.sourceObject.type}.${ref.propertyName} doesn't pass a value for it`,
+        filePath: ref.filePath,
+        line: ref.startLine,
+        range: copyPosition(ref),
+        context: `x is only set when the formula is used with a value in parentheses, e.g., d:${ref.id}(5)`,
+        isCrossFile: true,
+      });
+    }
+
+    // Edges between global formulas, keeping the first reference from one to another
+    const edges = new Map<string, Map<string, IdReference>>();
+    for (const ref of references) {
+      const sourceId = ref.sourceObject.properties.get('ID')?.value.trim();
+      if (!sourceId || this.resolveFunctionalAlias(ref.sourceObject.type) !== 'GlobalFormula') continue;
+      if (!edges.has(sourceId)) {
+        edges.set(sourceId, new Map());
+      }
+      const targets = edges.get(sourceId)!;
+      if (!targets.has(ref.id)) {
+        targets.set(ref.id, ref);
+      }
+    }
+
+    // Depth-first search; a reference back into the current path closes a cycle
+    const finished = new Set<string>();
+    const path: string[] = [];
+    const reportedCycles = new Set<string>();
+    const visit = (id: string): void => {
+      path.push(id);
+      for (const targetId of edges.get(id)?.keys() ?? []) {
+        const start = path.indexOf(targetId);
+        if (start >= 0) {
+          const loop = path.slice(start);
+          // The same loop can be found from any of its members
+          const key = [...loop].sort().join('\n');
+          if (!reportedCycles.has(key)) {
+            reportedCycles.add(key);
+            messages.push(this.globalFormulaCycleMessage(loop, edges));
+          }
+        } else if (!finished.has(targetId)) {
+          visit(targetId);
+        }
+      }
+      path.pop();
+      finished.add(id);
+    };
+    for (const id of edges.keys()) {
+      if (!finished.has(id)) {
+        visit(id);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Describe a loop of global formulas, reported on the reference from the first formula to the second
+   */
+  private globalFormulaCycleMessage(loop: string[], edges: Map<string, Map<string, IdReference>>): ValidationMessage {
+    const loopReferences = loop.map((id, i) => edges.get(id)!.get(loop[(i + 1) % loop.length]!)!);
+    const [first, ...rest] = loopReferences;
+
+    return {
+      ruleId: 'global-formula-cycle',
+      severity: 'error',
+      message: `Global formula cycle: ${[...loop, loop[0]].join(' → ')}`,
+      filePath: first!.filePath,
+      line: first!.startLine,
+      range: copyPosition(first!),
+      relatedLocations: rest.map(ref => ({
+        filePath: ref.filePath,
+        ...copyPosition(ref),
+        message: `'${ref.sourceObject.properties.get('ID')?.value.trim() ?? ''}' uses '${ref.id}'`,
+      })),
+      context: 'Each formula in the loop uses the next one, so evaluating any of them never finishes',
+      isCrossFile: true,
+    };
+  }
+
+  /**
+   * Report global variables that are read but never written, or written but never read
+   * Variables may also be used by the base game, so these are hints unless a
+   * similarly-named variable is used on the other side (likely a typo)
+   */
+  private checkGlobalVariables(index: GlobalVarIndex): ValidationMessage[] {
+    const messages: ValidationMessage[] = [];
+    const describe = (access: GlobalVarAccess) => `${access.via} in ${access.sourceObject.type}.${access.propertyName}`;
+    const renameCorrections = (access: GlobalVarAccess, names: string[]) =>
+      findSimilar(access.name, names, MAX_EDIT_DISTANCE).map(s => ({
+        filePath: access.filePath,
+        startLine: access.startLine,
+        startColumn: access.startColumn,
+        endLine: access.endLine,
+        endColumn: access.endColumn,
+        replacementText: s.value,
+      }));
+
+    const writtenNames = index.getWrittenNames();
+    const readNames = index.getReadNames();
+    const reportedWrites = new Set<string>();
+
+    for (const access of index.getAccesses()) {
+      // Prefix accesses only know the start of the name, so they can't be matched on their own
+      if (access.isPrefix) continue;
+
+      if (access.kind === 'read' && !index.isWritten(access.name)) {
+        const corrections = renameCorrections(access, writtenNames);
+        messages.push({
+          ruleId: 'global-var-never-written',
+          severity: corrections.length > 0 ? 'warning' : 'hint',
+          message: `Global variable '${access.name}' is read but never written`,
+          filePath: access.filePath,
+          line: access.startLine,
+          range: copyPosition(access),
+          context: `Read by ${describe(access)}; no loaded file sets it (it may be set by the base game)`,
+          corrections,
+          isCrossFile: true,
+        });
+      }
+
+      // Report each unread variable once, at its first write
+      if (access.kind === 'write' && !index.isRead(access.name) && !reportedWrites.has(access.name)) {
+        reportedWrites.add(access.name);
+        const corrections = renameCorrections(access, readNames);
+        messages.push({
+          ruleId: 'global-var-never-read',
+          severity: corrections.length > 0 ? 'warning' : 'hint',
+          message: `Global variable '${access.name}' is written but never read`,
+          filePath: access.filePath,
+          line: access.startLine,
+          range: copyPosition(access),
+          context: `Written by ${describe(access)}; no loaded file reads it (it may be read by the base game)`,
+          corrections,
+          isCrossFile: true,
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Link to the ID property of each object, for messages that involve several definitions
+   */
+  private idLocations(objects: ParsedObject[], message: string): RelatedLocation[] {
+    return objects.flatMap(obj => {
+      const idProp = obj.properties.get('ID');
+      return idProp ? [{ filePath: idProp.filePath, ...getValueRange(idProp), message }] : [];
+    });
+  }
+
+  private missingBaseMessage(
+    resolvedType: string,
+    id: string,
+    baseId: string,
+    isSelfClone: boolean,
+    definedIds: string[],
+    catalogued: boolean,
+    cloneFromProp: PropertyInfo
+  ): ValidationMessage {
+    // Without catalogued base game IDs, a base that isn't loaded may well come from the base game
+    const definedBy = catalogued ? 'another mod' : 'another mod or the base game';
+    if (isSelfClone) {
+      return {
+        ruleId: 'clone-from-self',
+        severity: 'hint',
+        message: `${resolvedType} '${id}' clones from its own ID, but '${id}' is not defined elsewhere`,
+        filePath: cloneFromProp.filePath,
+        line: cloneFromProp.valueStartLine,
+        range: getValueRange(cloneFromProp),
+        context:
+          `Cloning from your own ID only modifies an existing definition (it may be defined by ${definedBy}). ` +
+          'To create a new object, remove cloneFrom or clone from a different ID.',
+        isCrossFile: true,
+      };
+    }
+
+    const similar = findSimilar(baseId, definedIds, MAX_EDIT_DISTANCE).filter(s => s.value !== id);
+    const start = cloneFromProp.value.indexOf(baseId);
+    const range = {
+      startLine: cloneFromProp.valueStartLine,
+      startColumn: cloneFromProp.valueStartColumn + start,
+      endLine: cloneFromProp.valueStartLine,
+      endColumn: cloneFromProp.valueStartColumn + start + baseId.length,
+    };
+
+    return {
+      ruleId: 'unknown-clone-from',
+      severity: similar.length > 0 ? 'warning' : 'hint',
+      message: `cloneFrom base '${baseId}' for ${resolvedType} '${id}' is not defined`,
+      filePath: cloneFromProp.filePath,
+      line: cloneFromProp.valueStartLine,
+      range,
+      context: `Inherited properties cannot be checked (it may be defined by ${definedBy})`,
+      corrections: similar.map(s => ({
+        filePath: cloneFromProp.filePath,
+        ...range,
+        replacementText: s.value,
+      })),
+      isCrossFile: true,
+    };
+  }
+
+  /**
+   * Check that an Action with cloneFrom ends up with an [ActionAoE] and at least one [AvAffecter],
+   * either declared after it or inherited from a base in its cloneFrom chain
+   */
+  private validateEffectiveActionStructure(
+    action: ParsedObject,
+    actionId: string,
+    chain: ParsedObject[]
+  ): ValidationMessage[] {
+    const messages: ValidationMessage[] = [];
+
+    const ownSubObjects = (link: ParsedObject) => {
+      let next = link.nextObject;
+      const hasActionAoE = !!next && this.resolveFunctionalAlias(next.type) === 'ActionAoE';
+      if (hasActionAoE) {
+        next = next?.nextObject ?? null;
+      }
+      const hasAvAffecter = !!next && this.resolveFunctionalAlias(next.type) === 'AvAffecter';
+      return { hasActionAoE, hasAvAffecter };
+    };
+
+    const inherited = chain.map(ownSubObjects);
+    const baseIds = chain.slice(1).map(link => link.properties.get('ID')?.value.trim() ?? '');
+    const via = `cloneFrom chain: ${[actionId, ...baseIds].join(' → ')}`;
+
+    // Report on the cloneFrom property, linking to each base that was searched
+    const cloneFromProp = action.properties.get('cloneFrom');
+    const location = cloneFromProp
+      ? { line: cloneFromProp.valueStartLine, range: getValueRange(cloneFromProp) }
+      : { line: action.startLine, range: getTypeRange(action) };
+    const relatedLocations = this.idLocations(chain.slice(1), 'Base Action in the cloneFrom chain');
+
+    if (!inherited.some(sub => sub.hasActionAoE)) {
+      messages.push({
+        ruleId: 'action-structure',
+        severity: 'error',
+        message: `Action '${actionId}' has no [ActionAoE], and none is inherited through cloneFrom`,
+        filePath: action.filePath,
+        ...location,
+        relatedLocations,
+        context: via,
+        isCrossFile: true,
+      });
+    }
+
+    if (!inherited.some(sub => sub.hasAvAffecter)) {
+      messages.push({
+        ruleId: 'action-structure',
+        severity: 'error',
+        message: `Action '${actionId}' has no [AvAffecter], and none is inherited through cloneFrom`,
+        filePath: action.filePath,
+        ...location,
+        relatedLocations,
+        context: via,
+        isCrossFile: true,
+      });
+    }
+
+    return messages;
+  }
+
   private validateObject(obj: ParsedObject): ValidationMessage[] {
     const messages: ValidationMessage[] = [];
 
@@ -433,10 +1212,12 @@ export class ModValidator {
       }));
 
       messages.push({
+        ruleId: 'unknown-object-type',
         severity: 'error',
         message: `Unknown object type: ${obj.type}`,
         filePath: obj.filePath,
         line: obj.startLine,
+        range: getTypeRange(obj),
         context: 'This object type is not recognized',
         corrections,
       });
@@ -445,20 +1226,24 @@ export class ModValidator {
 
     if (classSchema.category === 'definition' && !obj.properties.has('ID')) {
       messages.push({
+        ruleId: 'missing-id',
         severity: 'error',
         message: `Object type ${obj.type} requires an ID property`,
         filePath: obj.filePath,
         line: obj.startLine,
+        range: getTypeRange(obj),
         suggestion: 'Add: ID = yourUniqueID;',
       });
     }
 
     if (obj.properties.has('cloneFrom') && classSchema.supportsCloneFrom === false) {
       messages.push({
+        ruleId: 'unsupported-clone-from',
         severity: 'warning',
         message: `Object type ${obj.type} does not support cloneFrom`,
         filePath: obj.filePath,
         line: obj.startLine,
+        range: getTypeRange(obj),
         context: 'The cloneFrom property will be ignored',
       });
     }
@@ -515,8 +1300,11 @@ export class ModValidator {
       }
     }
 
-    // Validate each property
-    for (const [propName, propInfo] of obj.properties) {
+    // Assignments of each scalar field, to warn when one is assigned more than once
+    const scalarAssignments = new Map<string, PropertyInfo[]>();
+
+    // Validate each property assignment, including repeated ones
+    for (const { name: propName, info: propInfo } of obj.assignments) {
       const propValue = propInfo.value;
 
       // Remove the ! prefix and + suffixes for lookup
@@ -529,6 +1317,7 @@ export class ModValidator {
       }
 
       let fieldType = knownFields.get(cleanPropName);
+      let isRepeatable = false;
 
       // Check if it matches a pattern field
       if (!fieldType) {
@@ -546,6 +1335,7 @@ export class ModValidator {
               (cleanPropName.startsWith(pattern.base) && /^\+*$/.test(cleanPropName.substring(pattern.base.length)))
             ) {
               fieldType = pattern.type;
+              isRepeatable = true;
               break;
             }
           }
@@ -575,10 +1365,12 @@ export class ModValidator {
         }));
 
         messages.push({
+          ruleId: 'unknown-property',
           severity: 'hint',
           message: `Unknown property '${cleanPropName}' for ${typeDisplay}`,
           filePath: propInfo.filePath,
           line: propInfo.nameStartLine,
+          range: getNameRange(propInfo),
           context: `Value: ${propValue}`,
           suggestion: corrections.length === 0 ? 'Check for typos in property name' : undefined,
           corrections,
@@ -586,6 +1378,16 @@ export class ModValidator {
         continue;
       }
 
+      if (!isRepeatable && !fieldType.startsWith('List<')) {
+        const key = propName.replace(/^!/, '');
+        const assignments = scalarAssignments.get(key);
+        if (assignments) {
+          assignments.push(propInfo);
+        } else {
+          scalarAssignments.set(key, [propInfo]);
+        }
+      }
+
       // Special case: ActorValueAffecter.magnitude should be validated as task string
       // when actorValue property equals "task" or "trigger"
       if (resolvedTypeName === 'ActorValueAffecter' && cleanPropName === 'magnitude') {
@@ -595,10 +1397,12 @@ export class ModValidator {
           // ERROR: magnitude must not be empty when actorValue = "task" or "trigger"
           if (propValue.trim() === '') {
             messages.push({
+              ruleId: 'required-magnitude',
               severity: 'error',
               message: `ActorValueAffecter with actorValue="${actorValue}" requires non-empty magnitude`,
               filePath: propInfo.filePath,
               line: propInfo.valueStartLine,
+              range: getNameRange(propInfo),
               context: 'The magnitude property should contain a task string (e.g., "action,actionID")',
             });
             continue;
@@ -629,6 +1433,25 @@ export class ModValidator {
       messages.push(...typeMessages);
     }
 
+    // Only the last assignment of a scalar field takes effect, so earlier ones are silently ignored
+    for (const [propName, assignments] of scalarAssignments) {
+      const last = assignments[assignments.length - 1];
+      if (!last || assignments.length < 2) continue;
+
+      for (const propInfo of assignments.slice(0, -1)) {
+        messages.push({
+          ruleId: 'repeated-property',
+          severity: 'warning',
+          message: `Property '${propName}' is assigned more than once in ${obj.type}`,
+          filePath: propInfo.filePath,
+          line: propInfo.nameStartLine,
+          range: getNameRange(propInfo),
+          relatedLocations: [{ filePath: last.filePath, ...getNameRange(last), message: 'Last assignment' }],
+          context: `Only the last assignment (line ${last.nameStartLine}) takes effect`,
+        });
+      }
+    }
+
     return messages;
   }
 
@@ -664,11 +1487,13 @@ export class ModValidator {
     if (taskString && taskString.value.trim() !== '' && effectID && effectID.value.trim() !== '') {
       // Both are specified - warn that effectID will be ignored
       messages.push({
+        ruleId: 'trigger-effect',
         severity: 'warning',
         message: 'Both taskString and effectID are specified on TriggerEffect',
         context: 'taskString takes precedence and effectID will be ignored',
         filePath: effectID.filePath,
         line: effectID.nameStartLine,
+        range: getNameRange(effectID),
       });
     }
 
@@ -680,10 +1505,12 @@ export class ModValidator {
     if (!effectID || effectID.value.trim() === '') {
       // No effectID and no taskString - this TriggerEffect is incomplete
       messages.push({
+        ruleId: 'trigger-effect',
         severity: 'error',
         message: 'TriggerEffect has neither effectID nor taskString',
         filePath: obj.filePath,
         line: obj.startLine,
+        range: getTypeRange(obj),
       });
       return messages;
     }
@@ -716,10 +1543,12 @@ export class ModValidator {
       const idProp = obj.properties.get('ID');
       if (!idProp) {
         messages.push({
+          ruleId: 'action-id-mismatch',
           severity: 'error',
           message: `${obj.type} for Action '${actionId}' is missing ID property`,
           filePath: obj.filePath,
           line: obj.startLine,
+          range: getTypeRange(obj),
           suggestion: `Add: ID=${actionId};`,
           suggestionIsAction: true,
           correctionIcon: '🔧',
@@ -739,10 +1568,12 @@ export class ModValidator {
 
       if (idProp.value !== actionId) {
         messages.push({
+          ruleId: 'action-id-mismatch',
           severity: 'error',
           message: `${obj.type} ID '${idProp.value}' does not match Action ID '${actionId}'`,
           filePath: obj.filePath,
           line: idProp.valueStartLine,
+          range: getValueRange(idProp),
           corrections: [
             {
               filePath: idProp.filePath,
@@ -768,11 +1599,13 @@ export class ModValidator {
 
       // If we're cloning from another Action, we don't need to worry about missing subobjects
       // because we'll be inheriting the cloned Actions's subobjects by default.
+      // The inherited structure is checked across files by checkCloneFromInheritance().
       const hasCloneFrom = !!action.properties.get('cloneFrom')?.value;
 
       if (!action.nextObject) {
         if (!hasCloneFrom) {
           messages.push({
+            ruleId: 'action-structure',
             severity: 'error',
             message: `Action '${actionId}' must be followed by [ActionAoE]`,
             filePath: action.filePath,
@@ -798,6 +1631,7 @@ export class ModValidator {
         if (!action.nextObject.nextObject) {
           if (!hasCloneFrom) {
             messages.push({
+              ruleId: 'action-structure',
               severity: 'error',
               message: `Action '${actionId}' must have at least one [AvAffecter] following after the [ActionAoE]`,
               filePath: action.filePath,
@@ -820,6 +1654,7 @@ export class ModValidator {
 
         if (!currentObj.nextObject) {
           messages.push({
+            ruleId: 'action-structure',
             severity: 'error',
             message: `AvAffecter for Action '${actionId}' must be followed by [AvAffecterAoE]`,
             filePath: currentObj.filePath,
@@ -845,10 +1680,12 @@ export class ModValidator {
           return true;
         }
         messages.push({
+          ruleId: 'action-structure',
           severity: 'error',
           message: `Action '${actionId}' must be followed by [ActionAoE], but found [${obj.type}]`,
           filePath: obj.filePath,
           line: obj.startLine,
+          range: getTypeRange(obj),
         });
         return false;
       }
@@ -877,10 +1714,12 @@ export class ModValidator {
           return true;
         }
         messages.push({
+          ruleId: 'action-structure',
           severity: 'error',
           message: `Action '${actionId}' expected at least one [AvAffecter], but found [${obj.type}]`,
           filePath: obj.filePath,
           line: obj.startLine,
+          range: getTypeRange(obj),
         });
         return false;
       }
@@ -896,10 +1735,12 @@ export class ModValidator {
       const nextType = this.resolveFunctionalAlias(obj.type);
       if (nextType !== 'AvAffecterAoE') {
         messages.push({
+          ruleId: 'action-structure',
           severity: 'error',
           message: `AvAffecter for Action '${actionId}' must be followed by [AvAffecterAoE], but found [${obj.type}]`,
           filePath: obj.filePath,
           line: obj.startLine,
+          range: getTypeRange(obj),
         });
         return false;
       }
@@ -0,0 +1,54 @@
+/**
+ * Archive Tests
+ * Tests reading mod files out of zip archives, and flagging problems with the archive
+ */
+
+import { describe, test, expect } from 'vitest';
+import JSZip from 'jszip';
+import { readArchive } from '../src/archive.js';
+
+async function createArchive(files: Record<string, string>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [filePath, content] of Object.entries(files)) {
+    zip.file(filePath, content);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('Archives', () => {
+  test('reads .txt files in nested folders with archive-relative paths', async () => {
+    const data = await createArchive({
+      'MyMod/items.txt': '[ItemType] ID=sword;',
+      'MyMod/actors/knights.txt': '[ActorType] ID=knight;',
+      'MyMod/preview.png': 'not a mod file',
+    });
+
+    const { entries, messages } = await readArchive(data, 'mymod.zip');
+    expect(entries).toEqual([
+      { path: 'MyMod/actors/knights.txt', content: '[ActorType] ID=knight;' },
+      { path: 'MyMod/items.txt', content: '[ItemType] ID=sword;' },
+    ]);
+    expect(messages).toEqual([]);
+  });
+
+  test('reads .txt files whatever the case of the extension', async () => {
+    const data = await createArchive({ 'MyMod/Items.TXT': '[ItemType] ID=sword;' });
+
+    const { entries } = await readArchive(data, 'mymod.zip');
+    expect(entries).toEqual([{ path: 'MyMod/Items.TXT', content: '[ItemType] ID=sword;' }]);
+  });
+
+  test('flags entries that differ only by case', async () => {
+    const data = await createArchive({ 'mod/Items.txt': '', 'mod/items.txt': '' });
+
+    const { entries, messages } = await readArchive(data, 'mymod.zip');
+    expect(entries).toHaveLength(2);
+    expect(messages.map(msg => [msg.ruleId, msg.filePath, msg.message])).toEqual([
+      ['archive-path-conflict', 'mymod.zip', "Archive entries 'mod/items.txt' and 'mod/Items.txt' differ only by case"],
+    ]);
+  });
+
+  test('rejects data that is not a zip archive', async () => {
+    await expect(readArchive(new TextEncoder().encode('[ItemType] ID=sword;'), 'mymod.zip')).rejects.toThrow();
+  });
+});
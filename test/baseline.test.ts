@@ -0,0 +1,60 @@
+/**
+ * Baseline Tests
+ * Tests fingerprinting messages independently of line numbers, and matching them against a baseline
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { BaselineMatcher, createBaseline, getFingerprint, parseBaseline } from '../src/baseline.js';
+import type { BaselineFingerprint } from '../src/baseline.js';
+
+function fingerprintAll(content: string): BaselineFingerprint[] {
+  const validator = new ModValidator();
+  const result = validator.validate(content, 'items.txt');
+  const objects = validator.getParsedObjectsCache().get('items.txt') ?? [];
+  return [...result.errors, ...result.warnings, ...result.hints, ...result.info].map(msg =>
+    getFingerprint(msg, objects, 'items.txt')
+  );
+}
+
+describe('Baseline', () => {
+  test('fingerprints use the object ID instead of the line', () => {
+    const fingerprints = fingerprintAll('[ItemType] ID=sword;\n\tstackabel=true;');
+
+    expect(fingerprints).toEqual([
+      {
+        file: 'items.txt',
+        ruleId: 'unknown-property',
+        message: "Unknown property 'stackabel' for ItemType",
+        object: 'ItemType:sword',
+      },
+    ]);
+    expect(fingerprintAll('\n\n[ItemType] ID=sword; stackabel=true;')).toEqual(fingerprints);
+  });
+
+  test('only messages beyond the baselined ones are new', () => {
+    const baseline = createBaseline(fingerprintAll('[ItemType] ID=a; stackabel=true; stackabel=false;'));
+    expect(baseline.entries.map(entry => entry.count)).toEqual([2]);
+
+    const matcher = new BaselineMatcher(parseBaseline(JSON.stringify(baseline)));
+    const current = fingerprintAll('[ItemType] ID=a; stackabel=true; stackabel=false; stackabel=1;');
+    expect(current.filter(fingerprint => !matcher.matches(fingerprint)).map(f => f.ruleId)).toEqual([
+      'unknown-property',
+    ]);
+    expect(matcher.getUnmatchedCount()).toBe(0);
+  });
+
+  test('counts baselined messages that no longer occur', () => {
+    const matcher = new BaselineMatcher(createBaseline(fingerprintAll('[ItemType] ID=a; stackabel=true;')));
+
+    expect(fingerprintAll('[ItemType] ID=a; stackable=true;').some(f => matcher.matches(f))).toBe(false);
+    expect(matcher.getUnmatchedCount()).toBe(1);
+  });
+
+  test('rejects invalid baseline files', () => {
+    expect(() => parseBaseline('[]')).toThrow('Not a version 1 baseline file');
+    expect(() => parseBaseline('{ "version": 1, "entries": [{ "file": "a.txt" }] }')).toThrow(
+      'Baseline entries must each have a file, ruleId, message, object and count'
+    );
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * cloneFrom Inheritance Tests
+ * Tests for resolving cloneFrom chains and validating the effective objects
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import type { VanillaIdsData } from '../src/types.js';
+import { InheritanceResolver } from '../src/inheritance-resolver.js';
+import { ModParser } from '../src/parser.js';
+import { ReferenceIndex } from '../src/reference-index.js';
+import { expectToBeDefined, TEST_BASE_GAME_IDS } from './test-utils.js';
+
+function parseObjects(content: string, filePath = 'test.txt') {
+  return new ModParser(content, filePath).parse().objects;
+}
+
+describe('InheritanceResolver', () => {
+  test('builds effective properties with own properties overriding inherited ones', () => {
+    const objects = parseObjects(`[ItemType] ID=sword; name=Sword; value=10;
+[ItemType] ID=fancySword; cloneFrom=sword; value=50;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const fancySword = objects[1];
+    expectToBeDefined(fancySword);
+    const resolved = resolver.resolve(fancySword);
+
+    expect(resolved.status).toBe('complete');
+    expect(resolved.chain).toEqual([fancySword, objects[0]]);
+    expect(resolved.properties.get('name')?.value).toBe('Sword');
+    expect(resolved.properties.get('value')?.value).toBe('50');
+    expect(resolved.properties.get('ID')?.value).toBe('fancySword');
+  });
+
+  test('follows multi-level chains', () => {
+    const objects = parseObjects(`[ItemType] ID=c; cloneFrom=b;
+[ItemType] ID=b; cloneFrom=a;
+[ItemType] ID=a; name=Base;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const c = objects[0];
+    expectToBeDefined(c);
+    const resolved = resolver.resolve(c);
+    expect(resolved.chain.map(o => o.properties.get('ID')?.value)).toEqual(['c', 'b', 'a']);
+    expect(resolved.properties.get('name')?.value).toBe('Base');
+  });
+
+  test('reports missing bases', () => {
+    const objects = parseObjects(`[ItemType] ID=fancySword; cloneFrom=vanillaSword;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const obj = objects[0];
+    expectToBeDefined(obj);
+    const resolved = resolver.resolve(obj);
+    expect(resolved.status).toBe('missingBase');
+    expect(resolved.missingBaseId).toBe('vanillaSword');
+  });
+
+  test('marks chains ending at a base game definition', () => {
+    const objects = parseObjects(`[ActorValue] ID=bigHP; cloneFrom=HP;`);
+    const resolver = new InheritanceResolver(objects, new ReferenceIndex(objects, TEST_BASE_GAME_IDS));
+
+    const obj = objects[0];
+    expectToBeDefined(obj);
+    const resolved = resolver.resolve(obj);
+    expect(resolved.status).toBe('baseGame');
+    expect(resolved.missingBaseId).toBe('HP');
+  });
+
+  test('detects cycles', () => {
+    const objects = parseObjects(`[ItemType] ID=a; cloneFrom=b;
+[ItemType] ID=b; cloneFrom=a;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const a = objects[0];
+    expectToBeDefined(a);
+    const resolved = resolver.resolve(a);
+    expect(resolved.status).toBe('cycle');
+    expect(resolved.cycle).toEqual(objects);
+  });
+
+  test('resolves self-clones to the original definition', () => {
+    const objects = parseObjects(`[ItemType] ID=sword; name=Sword;
+[ItemType] ID=sword; cloneFrom=sword; value=20;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const extension = objects[1];
+    expectToBeDefined(extension);
+    const resolved = resolver.resolve(extension);
+    expect(resolved.status).toBe('complete');
+    expect(resolved.properties.get('name')?.value).toBe('Sword');
+    expect(resolved.properties.get('value')?.value).toBe('20');
+  });
+
+  test('appends to inherited lists unless they are overwritten with !', () => {
+    const objects = parseObjects(`[ItemType] ID=sword; name=Sword; toMake=hilt; toMake=blade; combineWith=gem;
+[ItemType] ID=fancySword; cloneFrom=sword; name=Fancy Sword; toMake=ribbon; !combineWith=pearl;`);
+    const resolver = new InheritanceResolver(objects);
+
+    const fancySword = objects[1];
+    expectToBeDefined(fancySword);
+    const resolved = resolver.resolve(fancySword);
+    expect(resolved.assignments.map(({ name, info }) => `${name}=${info.value}`)).toEqual([
+      'toMake=hilt',
+      'toMake=blade',
+      'ID=fancySword',
+      'cloneFrom=sword',
+      'name=Fancy Sword',
+      'toMake=ribbon',
+      '!combineWith=pearl',
+    ]);
+    expect(resolved.properties.get('name')?.value).toBe('Fancy Sword');
+  });
+});
+
+describe('cloneFrom validation', () => {
+  function crossFileMessages(files: Record<string, string>, baseGameIds?: VanillaIdsData) {
+    const validator = new ModValidator(baseGameIds);
+    for (const [filePath, content] of Object.entries(files)) {
+      validator.validate(content, filePath);
+    }
+    return validator.getCrossFileValidationMessages();
+  }
+
+  test('no messages when bases are defined in another file', () => {
+    const messages = crossFileMessages({
+      'base.txt': `[ItemType] ID=sword;`,
+      'mod.txt': `[ItemType] ID=fancySword; cloneFrom=sword;`,
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  test('reports missing base with corrections for similar IDs', () => {
+    const messages = crossFileMessages({
+      'base.txt': `[ItemType] ID=sword;`,
+      'mod.txt': `[ItemType] ID=fancySword; cloneFrom=swrod;`,
+    });
+
+    expect(messages).toHaveLength(1);
+    const msg = messages[0];
+    expectToBeDefined(msg);
+    expect(msg.severity).toBe('warning');
+    expect(msg.message).toBe("cloneFrom base 'swrod' for ItemType 'fancySword' is not defined");
+    expect(msg.corrections?.map(c => c.replacementText)).toEqual(['sword']);
+    expect(msg.corrections?.[0]?.startColumn).toBe(36);
+  });
+
+  test('reports missing base as a hint when nothing similar is loaded', () => {
+    const messages = crossFileMessages({ 'mod.txt': `[ItemType] ID=fancySword; cloneFrom=vanillaSword;` });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.severity).toBe('hint');
+  });
+
+  test('notes that missing bases of types without catalogued base game IDs may come from the base game', () => {
+    const content = `[ItemType] ID=fancySword; cloneFrom=vanillaSword;`;
+
+    expect(crossFileMessages({ 'mod.txt': content })[0]?.context).toBe(
+      'Inherited properties cannot be checked (it may be defined by another mod or the base game)'
+    );
+    expect(crossFileMessages({ 'mod.txt': content }, TEST_BASE_GAME_IDS)[0]?.context).toBe(
+      'Inherited properties cannot be checked (it may be defined by another mod)'
+    );
+  });
+
+  test('reports cycles once with the full chain', () => {
+    const messages = crossFileMessages({
+      'a.txt': `[ItemType] ID=a; cloneFrom=b;`,
+      'b.txt': `[ItemType] ID=b; cloneFrom=a;`,
+    });
+
+    expect(messages).toHaveLength(1);
+    const msg = messages[0];
+    expectToBeDefined(msg);
+    expect(msg.severity).toBe('error');
+    expect(msg.message).toBe('cloneFrom cycle for ItemType: a → b → a');
+    expect(msg.corrections?.map(c => c.filePath)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  test('reports self-clones with nothing to extend', () => {
+    const messages = crossFileMessages({ 'mod.txt': `[ItemType] ID=sword; cloneFrom=sword;` });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.severity).toBe('hint');
+    expect(messages[0]?.message).toBe("ItemType 'sword' clones from its own ID, but 'sword' is not defined elsewhere");
+  });
+
+  test('self-clones and cloneFrom bases shipped with the base game are defined', () => {
+    const messages = crossFileMessages(
+      {
+        'mod.txt': `[ActorValue] ID=HP; cloneFrom=HP;
+[ActorValue] ID=bigHP; cloneFrom=HP;`,
+      },
+      TEST_BASE_GAME_IDS
+    );
+
+    expect(messages).toEqual([]);
+  });
+
+  test('base game IDs are suggested for typos', () => {
+    const messages = crossFileMessages(
+      { 'mod.txt': `[ActorValue] ID=myStat; cloneFrom=skill_Fir;` },
+      TEST_BASE_GAME_IDS
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.severity).toBe('warning');
+    expect(messages[0]?.corrections?.[0]?.replacementText).toBe('skill_Fire');
+  });
+
+  test('validates effective objects without repeating messages about inherited values', () => {
+    const validator = new ModValidator();
+    const base = validator.validate(`[ActorTypeAOE] ID=burst; maxRange=2; stackable=true;`, 'base.txt');
+    validator.validate(`[ActorTypeDetectAoE] ID=bigBurst; cloneFrom=burst; maxRange=3;`, 'mod.txt');
+
+    expect(base.hints.map(m => m.ruleId)).toEqual(['unknown-property']);
+    expect(validator.getCrossFileValidationMessages()).toEqual([]);
+  });
+
+  test('Action inheriting its structure from a loaded base is valid', () => {
+    const messages = crossFileMessages({
+      'base.txt': `[Action] ID=slash;
+[ActionAoE] ID=slash;
+[AvAffecter] ID=slash; actorValue=HP; magnitude=-5;
+[AvAffecterAoE] ID=slash;`,
+      'mod.txt': `[Action] ID=bigSlash; cloneFrom=slash;`,
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  test('reports Action missing structure even after inheritance', () => {
+    const messages = crossFileMessages({
+      'base.txt': `[Action] ID=slash;`,
+      'mod.txt': `[Action] ID=bigSlash; cloneFrom=slash;`,
+    });
+
+    expect(messages.map(m => m.message)).toEqual([
+      "Action 'bigSlash' has no [ActionAoE], and none is inherited through cloneFrom",
+      "Action 'bigSlash' has no [AvAffecter], and none is inherited through cloneFrom",
+    ]);
+    expect(messages[0]?.context).toBe('cloneFrom chain: bigSlash → slash');
+  });
+
+  test('Action structure is not checked when the base is not loaded', () => {
+    const messages = crossFileMessages({ 'mod.txt': `[Action] ID=bigSlash; cloneFrom=vanillaSlash;` });
+
+    expect(messages.map(m => m.message)).toEqual([
+      "cloneFrom base 'vanillaSlash' for Action 'bigSlash' is not defined",
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Completion Tests
+ * Tests that completion items match the context at the cursor
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CompletionProvider } from '../src/completion.js';
+import type { CompletionList } from '../src/completion.js';
+
+const provider = new CompletionProvider();
+
+/**
+ * Helper to get completions at the position marked with | in the content
+ */
+function completeAt(markedContent: string): CompletionList {
+  const offset = markedContent.indexOf('|');
+  const before = markedContent.slice(0, offset).split('\n');
+  const content = markedContent.slice(0, offset) + markedContent.slice(offset + 1);
+  return provider.getCompletions(content, before.length, before[before.length - 1]!.length);
+}
+
+function labels(list: CompletionList): string[] {
+  return list.items.map(item => item.label);
+}
+
+describe('Completion', () => {
+  test('offers object types and type aliases inside brackets', () => {
+    const list = completeAt('[ItemType] ID=a;\n[Ite|');
+
+    expect(labels(list)).toContain('ItemType');
+    expect(labels(list)).toContain('ActorTypeAoE');
+    expect(list.items.every(item => item.kind === 'objectType')).toBe(true);
+    expect(list.range).toEqual({ startLine: 2, startColumn: 1, endLine: 2, endColumn: 4 });
+  });
+
+  test('offers fields of the current object type in a property name position', () => {
+    const list = completeAt('[ItemType] ID=a;\n\tstack|');
+
+    expect(labels(list)).toContain('stackable');
+    expect(list.items.find(item => item.label === 'stackable')?.detail).toBe('boolean');
+    expect(list.range).toEqual({ startLine: 2, startColumn: 1, endLine: 2, endColumn: 6 });
+  });
+
+  test('leaves out scalar fields that are already assigned', () => {
+    const list = completeAt('[ItemType] ID=a; value=5; |');
+
+    expect(labels(list)).not.toContain('value');
+    expect(labels(list)).toContain('weight');
+  });
+
+  test('resolves type aliases for property names', () => {
+    const list = completeAt('[ActionAOE] ID=a; |');
+
+    expect(labels(list).length).toBeGreaterThan(0);
+  });
+
+  test('offers booleans in boolean values', () => {
+    expect(labels(completeAt('[ItemType] ID=a; stackable=t|'))).toEqual(['true', 'false']);
+  });
+
+  test('offers enum members in enum values', () => {
+    const list = completeAt('[ItemType] ID=a; element=|');
+
+    expect(labels(list)).toContain('fire');
+    expect(list.items.every(item => item.kind === 'value')).toBe(true);
+  });
+
+  test('offers enum members after commas in enum lists', () => {
+    const list = completeAt('[ActorValueAffecter] ID=a; element=fire, wa|');
+
+    expect(labels(list)).toContain('water');
+    expect(list.range.startColumn).toBe(41);
+  });
+
+  test('offers operators in formula values', () => {
+    const list = completeAt('[DialogOption] ID=ask; fReq=1 + mi|');
+
+    expect(labels(list)).toContain('min');
+    expect(list.items.every(item => item.kind === 'operator')).toBe(true);
+  });
+
+  test('does not offer operators in operator arguments', () => {
+    expect(completeAt('[DialogOption] ID=ask; fReq=c:|').items).toEqual([]);
+    expect(completeAt('[DialogOption] ID=ask; fReq=d(|').items).toEqual([]);
+  });
+
+  test('offers operators in formula bodies', () => {
+    expect(labels(completeAt('[DialogOption] ID=ask; fReq=min:5:|'))).toContain('c');
+  });
+
+  test('offers task names in task string values', () => {
+    const list = completeAt('[DialogOption] ID=ask; specialEffect=setGlob|');
+
+    expect(labels(list)).toContain('setGlobalVar');
+    expect(list.items.every(item => item.kind === 'task')).toBe(true);
+  });
+
+  test('offers task names for task magnitudes', () => {
+    const list = completeAt('[ActorValueAffecter] ID=a; actorValue=task; magnitude=|');
+
+    expect(labels(list)).toContain('action');
+  });
+
+  test('does not offer task names for task parameters', () => {
+    expect(completeAt('[DialogOption] ID=ask; specialEffect=setGlobalVar,|').items).toEqual([]);
+  });
+
+  test('offers nothing inside comments', () => {
+    expect(completeAt('[ItemType] ID=a; -- stack|').items).toEqual([]);
+  });
+
+  test('offers nothing before the first object', () => {
+    expect(completeAt('stack|').items).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Config Tests
+ * Tests rule IDs on messages, and turning rules off or changing their severity with a project config
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { parseConfig, globToRegExp } from '../src/config.js';
+import { AUTO_FIXABLE_RULE_IDS, RULE_IDS } from '../src/rules.js';
+import type { ValidationMessage } from '../src/types.js';
+
+const CONTENT = '[Action] ID=test; applyWeponBuffs=true;';
+
+function allMessages(validator: ModValidator, content: string, filePath: string): ValidationMessage[] {
+  const result = validator.validate(content, filePath);
+  return [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+}
+
+describe('Rule IDs', () => {
+  test('messages report the rule that produced them', () => {
+    const validator = new ModValidator();
+    const messages = allMessages(validator, CONTENT, 'test.txt');
+
+    const unknownProperty = messages.find(msg => msg.message.includes('Unknown property'));
+    expect(unknownProperty?.ruleId).toBe('unknown-property');
+    for (const msg of messages) {
+      expect(RULE_IDS).toContain(msg.ruleId);
+    }
+  });
+
+  test('only deterministic fixes are auto-fixable, not typo guesses', () => {
+    const validator = new ModValidator();
+    const messages = allMessages(validator, `${CONTENT}\n[ItemType] ID=a; stackable=true`, 'test.txt');
+
+    const fixable = messages.filter(msg => msg.corrections?.length && AUTO_FIXABLE_RULE_IDS.has(msg.ruleId));
+    expect(fixable.map(msg => msg.ruleId)).toEqual(['missing-semicolon']);
+    expect(messages.find(msg => msg.ruleId === 'unknown-property')?.corrections).toHaveLength(1);
+  });
+});
+
+describe('Config', () => {
+  test('rules can be turned off or given a different severity', () => {
+    const validator = new ModValidator();
+    validator.setConfig(parseConfig('{ "rules": { "unknown-property": "error" } }'));
+    const result = validator.validate(CONTENT, 'test.txt');
+    expect(result.errors.map(msg => msg.ruleId)).toContain('unknown-property');
+    expect(result.hints.map(msg => msg.ruleId)).not.toContain('unknown-property');
+
+    validator.setConfig(parseConfig('{ "rules": { "unknown-property": "off" } }'));
+    expect(allMessages(validator, CONTENT, 'test.txt').map(msg => msg.ruleId)).not.toContain('unknown-property');
+
+    validator.setConfig(null);
+    expect(validator.validate(CONTENT, 'test.txt').hints.map(msg => msg.ruleId)).toContain('unknown-property');
+  });
+
+  test('overrides apply to files matching their globs, relative to the config directory', () => {
+    const validator = new ModValidator();
+    const config = parseConfig(
+      JSON.stringify({
+        rules: { 'unknown-property': 'off' },
+        overrides: [{ files: ['strict/**'], rules: { 'unknown-property': 'warning' } }],
+      })
+    );
+    validator.setConfig(config, filePath => filePath.replace(/^\/mods\//, ''));
+
+    const strict = validator.validate(CONTENT, '/mods/strict/actions/test.txt');
+    expect(strict.warnings.map(msg => msg.ruleId)).toContain('unknown-property');
+
+    const other = allMessages(validator, CONTENT, '/mods/other/test.txt');
+    expect(other.map(msg => msg.ruleId)).not.toContain('unknown-property');
+  });
+
+  test('cross-file messages are configured too', () => {
+    const validator = new ModValidator();
+    validator.setConfig(parseConfig('{ "rules": { "duplicate-id": "off" } }'));
+    validator.validate('[ItemType] ID=sword; value=1;', 'a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', 'b.txt');
+
+    expect(validator.getCrossFileValidationMessages().map(msg => msg.ruleId)).not.toContain('duplicate-id');
+  });
+
+  test('invalid configs report every problem', () => {
+    expect(() => parseConfig('{ "rules": ')).toThrow(/Invalid JSON/);
+    expect(() =>
+      parseConfig(
+        JSON.stringify({
+          rules: { 'no-such-rule': 'off', 'unknown-property': 'loud' },
+          overrides: [{ rules: {} }],
+          extends: 'base',
+        })
+      )
+    ).toThrow(
+      [
+        'Invalid .modvalidator.json:',
+        "  rules: unknown rule 'no-such-rule'",
+        '  rules.unknown-property must be one of: off, on, error, warning, hint, info',
+        '  overrides[0].files must be a glob pattern or a non-empty array of them',
+        "  unknown setting 'extends'",
+      ].join('\n')
+    );
+  });
+
+  test('glob patterns', () => {
+    expect(globToRegExp('legacy/**').test('legacy/a/b.txt')).toBe(true);
+    expect(globToRegExp('legacy/*.txt').test('legacy/a/b.txt')).toBe(false);
+    expect(globToRegExp('**/items/*.txt').test('items/sword.txt')).toBe(true);
+    expect(globToRegExp('*.{txt,json}').test('deep/dir/file.json')).toBe(true);
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    expect(globToRegExp('file?.txt').test('file10.txt')).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Cross-File Reference Tests
+ * Tests for resolving ID references between definitions across files
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { ReferenceIndex } from '../src/reference-index.js';
+import { ModParser } from '../src/parser.js';
+import { expectToBeDefined, TEST_BASE_GAME_IDS } from './test-utils.js';
+import vanillaIdsData from '../src/vanilla-ids.json' with { type: 'json' };
+import tasksData from '../src/tasks.json' with { type: 'json' };
+
+function buildIndex(content: string, filePath = 'test.txt'): ReferenceIndex {
+  return new ReferenceIndex(new ModParser(content, filePath).parse().objects);
+}
+
+function referenceMessages(validator: ModValidator) {
+  return validator.getCrossFileValidationMessages().filter(m => m.message.startsWith('Unknown '));
+}
+
+describe('ReferenceIndex', () => {
+  test('indexes definitions by functional type', () => {
+    const index = buildIndex(`[ItemType] ID=sword;
+[ActionAOE] ID=slash;
+[Action] ID=slash;`);
+
+    expect(index.getDefinedIds('ItemType')).toEqual(['sword']);
+    expect(index.getDefinedIds('Action')).toEqual(['slash']);
+    // ActionAoE is a nested type, not a definition
+    expect(index.getDefinedIds('ActionAoE')).toEqual([]);
+  });
+
+  test('indexes Item and Actor instance IDs as references to their definitions', () => {
+    const index = buildIndex(`[Item] ID=sword;
+[Actor] ID=goblin;`);
+
+    const refs = index.getReferences();
+    expect(refs.map(r => [r.targetType, r.id, r.kind])).toEqual([
+      ['ItemType', 'sword', 'instance'],
+      ['ActorType', 'goblin', 'instance'],
+    ]);
+  });
+
+  test('uses actorTypeID instead of the Actor ID when present', () => {
+    const index = buildIndex(`[Actor] ID=bossGoblin; actorTypeID=goblin;`);
+
+    const refs = index.getReferences();
+    expect(refs).toHaveLength(1);
+    expect(refs[0]?.propertyName).toBe('actorTypeID');
+    expect(refs[0]?.id).toBe('goblin');
+  });
+
+  test('splits list fields into separate references with exact positions', () => {
+    const index = buildIndex(`[ActorClass] ID=knight; actions=slash, parry;`);
+
+    const refs = index.getReferencesTo('Action', 'parry');
+    expect(refs).toHaveLength(1);
+    const ref = refs[0];
+    expectToBeDefined(ref);
+    expect(ref.startLine).toBe(1);
+    expect(ref.startColumn).toBe(39);
+    expect(ref.endColumn).toBe(44);
+  });
+
+  test('indexes cloneFrom targets but not self-clones', () => {
+    const index = buildIndex(`[ItemType] ID=betterSword; cloneFrom=sword;
+[ItemType] ID=sword; cloneFrom=sword;`);
+
+    const refs = index.getReferences();
+    expect(refs.map(r => [r.targetType, r.id, r.kind])).toEqual([['ItemType', 'sword', 'cloneFrom']]);
+  });
+
+  test('indexes action IDs in task strings', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=action,fireball,@XYA;`);
+
+    const refs = index.getReferencesTo('Action', 'fireball');
+    expect(refs).toHaveLength(1);
+    const ref = refs[0];
+    expectToBeDefined(ref);
+    expect(ref.kind).toBe('taskParameter');
+    expect(ref.propertyName).toBe('specialEffect');
+    expect(ref.startLine).toBe(2);
+    expect(ref.startColumn).toBe(22);
+    expect(ref.endColumn).toBe(30);
+  });
+
+  test('knows IDs from the base game catalog', () => {
+    const index = new ReferenceIndex([], TEST_BASE_GAME_IDS);
+
+    expect(index.isBaseGameId('ActorValue', 'HP')).toBe(true);
+    expect(index.isDefined('ActorValue', 'HP')).toBe(true);
+    expect(index.isDefined('ActorValue', 'notAStat')).toBe(false);
+    // Base game IDs are not mod definitions
+    expect(index.getDefinitions('ActorValue', 'HP')).toEqual([]);
+  });
+
+  test('base game catalog matches the bundled game version once it has been extracted', () => {
+    const extracted = Object.keys(vanillaIdsData.definitions).length > 0;
+    expect(vanillaIdsData.gameVersion).toBe(extracted ? tasksData.gameVersion : '');
+    expect(buildIndex('').getBaseGameVersion()).toBe(vanillaIdsData.gameVersion);
+    expect(new ReferenceIndex([], TEST_BASE_GAME_IDS).getBaseGameVersion()).toBe(TEST_BASE_GAME_IDS.gameVersion);
+  });
+
+  test('skips task parameters filled by global variables', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=action,@Gspell,@XYA;`);
+
+    expect(index.getReferences()).toEqual([]);
+  });
+});
+
+describe('Dangling reference validation', () => {
+  test('references resolve across files', () => {
+    const validator = new ModValidator();
+    validator.validate(`[Action] ID=slash;`, 'actions.txt');
+    validator.validate(`[ItemType] ID=sword; action=slash;`, 'items.txt');
+
+    expect(referenceMessages(validator)).toEqual([]);
+  });
+
+  test('reports unknown IDs as hints when nothing similar is defined', () => {
+    const validator = new ModValidator();
+    validator.validate(`[ItemType] ID=sword; action=vanillaSlash;`, 'items.txt');
+
+    const messages = referenceMessages(validator);
+    expect(messages).toHaveLength(1);
+    const msg = messages[0];
+    expectToBeDefined(msg);
+    expect(msg.severity).toBe('hint');
+    expect(msg.message).toBe("Unknown Action ID 'vanillaSlash' referenced by ItemType.action");
+    expect(msg.isCrossFile).toBe(true);
+    expect(msg.corrections).toEqual([]);
+  });
+
+  test('notes that IDs of types without catalogued base game IDs may come from the base game', () => {
+    const content = `[Actor] ID=guard; actorTypeID=guardType; faction=vanillaGuards; x=0; y=0;`;
+    const uncatalogued = new ModValidator();
+    uncatalogued.validate(content, 'actors.txt');
+    const catalogued = new ModValidator({ gameVersion: '1.5.97', definitions: { Faction: ['bandits'] } });
+    catalogued.validate(content, 'actors.txt');
+
+    const contextOf = (validator: ModValidator) =>
+      referenceMessages(validator).find(msg => msg.message.includes('vanillaGuards'))?.context;
+    expect(contextOf(uncatalogued)).toBe(
+      'No Faction with this ID is defined in the loaded files (it may be defined by the base game)'
+    );
+    expect(contextOf(catalogued)).toBe('No Faction with this ID is defined in the loaded files or known base game IDs');
+  });
+
+  test('reports likely typos as warnings with corrections to defined IDs', () => {
+    const validator = new ModValidator();
+    validator.validate(`[Action] ID=fireball;`, 'actions.txt');
+    validator.validate(`[ItemType] ID=staff; action=firebal;`, 'items.txt');
+
+    const messages = referenceMessages(validator);
+    expect(messages).toHaveLength(1);
+    const msg = messages[0];
+    expectToBeDefined(msg);
+    expect(msg.severity).toBe('warning');
+    expect(msg.filePath).toBe('items.txt');
+    expect(msg.corrections).toEqual([
+      {
+        filePath: 'items.txt',
+        startLine: 1,
+        startColumn: 28,
+        endLine: 1,
+        endColumn: 35,
+        replacementText: 'fireball',
+      },
+    ]);
+  });
+
+  test('does not check actor values until the base game catalog lists every ActorValue', () => {
+    const validator = new ModValidator();
+    validator.validate(
+      `[ActorValueAffecter] ID=rally; actorValue=HP; magnitude=tb:DEF + c:morale * c:hostile + c:town + t:MagDef;`,
+      'abilities.txt'
+    );
+
+    expect(referenceMessages(validator)).toEqual([]);
+  });
+
+  test('stops reporting when the defining file is removed and re-added', () => {
+    const validator = new ModValidator();
+    validator.validate(`[Action] ID=slash;`, 'actions.txt');
+    validator.validate(`[ItemType] ID=sword; action=slash;`, 'items.txt');
+
+    validator.removeFromCache('actions.txt');
+    expect(referenceMessages(validator)).toHaveLength(1);
+
+    validator.validate(`[Action] ID=slash;`, 'actions.txt');
+    expect(referenceMessages(validator)).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Formula AST Tree Tests
+ * Tests the labelled tree used by the formula visualizer and the formula playground
+ */
+
+import { describe, test, expect } from 'vitest';
+import { parseFormula } from '../src/formula-parser.js';
+import { getASTTree, type ASTTreeNode } from '../src/formula-ast-tree.js';
+
+function summarize(node: ASTTreeNode): unknown[] {
+  return [node.edge ?? null, node.type, node.detail, ...node.children.map(summarize)];
+}
+
+describe('Formula AST tree', () => {
+  test('labels each node and the edge from its parent', () => {
+    const tree = getASTTree(parseFormula('min:5:c:HP*2 + -x'));
+
+    expect(summarize(tree)).toEqual([
+      null,
+      'binaryOp',
+      '+',
+      [
+        'left',
+        'binaryOp',
+        '*',
+        ['left', 'function', 'min: "5"', ['body', 'function', 'c: "HP"']],
+        ['right', 'literal', '2'],
+      ],
+      ['right', 'unaryOp', '-', ['operand', 'variable', 'x']],
+    ]);
+  });
+
+  test('includes function-style arguments and math function names', () => {
+    expect(summarize(getASTTree(parseFormula('m:rand(3)')))).toEqual([null, 'function', 'm: rand(3)']);
+    expect(summarize(getASTTree(parseFormula('d(swordDmg)')))).toEqual([
+      null,
+      'mathFunction',
+      '',
+      ['name', 'functionName', 'd'],
+      ['arg', 'global', 'swordDmg'],
+    ]);
+  });
+});
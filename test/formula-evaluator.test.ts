@@ -0,0 +1,67 @@
+/**
+ * Formula Evaluator Tests
+ * Tests computing formula values, with game state provided by a mock context
+ */
+
+import { describe, test, expect } from 'vitest';
+import { evaluateFormula } from '../src/formula-evaluator.js';
+
+describe('Formula evaluator', () => {
+  test('evaluates arithmetic with caster and target values', () => {
+    const context = { caster: { MagAtk: 20, skill_Fire: 4 }, target: { HP: 30 } };
+
+    expect(evaluateFormula('12 + c:MagAtk * 0.4 + c:skill_Fire * 0.25', context)).toEqual({ value: 21 });
+    expect(evaluateFormula('-t:HP % 7', context)).toEqual({ value: -2 });
+    expect(evaluateFormula('swapCasterTarget:c:HP', context)).toEqual({ value: 30 });
+  });
+
+  test('evaluates math and comparison operators', () => {
+    const context = { caster: { HP: 4 } };
+
+    expect(evaluateFormula('min:5:c:HP', context)).toEqual({ value: 5 });
+    expect(evaluateFormula('max:3:c:HP', context)).toEqual({ value: 3 });
+    expect(evaluateFormula('floor:2.5 + c:HP', context)).toEqual({ value: 6 });
+    expect(evaluateFormula('round:2.5 + round:3.5', context)).toEqual({ value: 6 });
+    expect(evaluateFormula('lessThan:5:c:HP', context)).toEqual({ value: 1 });
+    expect(evaluateFormula('between:1:4:c:HP', context)).toEqual({ value: 0 });
+    expect(evaluateFormula('not:cIsMoreThan:HP:3', context)).toEqual({ value: 0 });
+  });
+
+  test('resolves global variables, items, math functions and global formulas through the context', () => {
+    const context = {
+      globalVars: { chapter: 3, ally: 'knight' },
+      items: { potion: 2 },
+      math: { rand: (max = 1) => max - 1 },
+      formulaGlobals: { scalingDmg: 'x * 2 + g:chapter', bonus: 'd:scalingDmg(1)' },
+    };
+
+    expect(evaluateFormula('g:chapter + item:potion', context)).toEqual({ value: 5 });
+    expect(evaluateFormula('gIs:ally,knight + gIsMoreThan:chapter:3', context)).toEqual({ value: 1 });
+    expect(evaluateFormula('m:rand(6)', context)).toEqual({ value: 5 });
+    expect(evaluateFormula('d:scalingDmg(5) + bonus', context)).toEqual({ value: 18 });
+  });
+
+  test('reports the operator that needs context instead of guessing', () => {
+    expect(evaluateFormula('10 + c:MagAtk', { caster: { HP: 1 } })).toEqual({
+      needsContext: {
+        operator: 'c',
+        message: "Caster actor value 'MagAtk' is not in the context",
+        range: { startLine: 0, startColumn: 5, endLine: 0, endColumn: 6 },
+      },
+    });
+    expect(evaluateFormula('distance + 1').needsContext?.message).toBe(
+      "Global formula 'distance' is not in the context"
+    );
+    expect(evaluateFormula('kills:wolf').needsContext?.message).toBe(
+      "'kills' depends on game state that can't be evaluated here (game-state)"
+    );
+    expect(evaluateFormula('sinceLastTurnStart:c:HP').needsContext?.message).toBe(
+      "Unknown operator 'sinceLastTurnStart'"
+    );
+  });
+
+  test('reports global formulas that refer to each other', () => {
+    const result = evaluateFormula('d:a', { formulaGlobals: { a: 'd:b + 1', b: 'd:a' } });
+    expect(result.error).toBe('Global formula cycle: a → b → a');
+  });
+});
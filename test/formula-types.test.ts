@@ -0,0 +1,58 @@
+/**
+ * Formula Type Tests
+ * Tests inferring boolean and float results from formula.json, and flagging suspicious combinations
+ */
+
+import { describe, test, expect } from 'vitest';
+import { parseFormula } from '../src/formula-parser.js';
+import { checkFormulaTypes, inferFormulaType } from '../src/formula-type-checker.js';
+import { ModValidator } from '../src/validator.js';
+
+function ruleIds(formula: string, propertyName: string, objectType = 'ActorValueAffecter'): string[] {
+  return checkFormulaTypes(parseFormula(formula), propertyName, objectType).map(error => error.ruleId);
+}
+
+describe('Formula types', () => {
+  test('infers types from operator returns', () => {
+    expect(inferFormulaType(parseFormula('c:HP * 2'))).toBe('float');
+    expect(inferFormulaType(parseFormula('lessThan:5:c:HP'))).toBe('boolean');
+    expect(inferFormulaType(parseFormula('gIs1:done * 1 - cIs1:burning'))).toBe('boolean');
+    expect(inferFormulaType(parseFormula('m:incapped + swapCasterTarget:tIs1:burning'))).toBe('boolean');
+    expect(inferFormulaType(parseFormula('d:bonus * gIs1:done'))).toBe('unknown');
+  });
+
+  test('flags conditions whose result is combined with what follows', () => {
+    expect(ruleIds('lessThan:5:c:HP*2', 'magnitude')).toEqual(['condition-precedence']);
+    expect(ruleIds('10 + moreThan:0:t:HP - 3', 'magnitude')).toEqual(['condition-precedence']);
+
+    // Gates with the value first, conditions without a formula, and combined conditions are fine
+    expect(ruleIds('2*lessThan:5:c:HP', 'magnitude')).toEqual([]);
+    expect(ruleIds('cIs1:burning*20', 'magnitude')).toEqual([]);
+    expect(ruleIds('not:gIs1:a*gIs1:b', 'magnitude')).toEqual([]);
+  });
+
+  test('flags condition properties whose formulas return numbers', () => {
+    expect(ruleIds('c:HP - 10', 'fReq')).toEqual(['non-boolean-condition']);
+    expect(ruleIds('g:questStep', 'discoverable_fReq', 'Location')).toEqual(['non-boolean-condition']);
+    expect(ruleIds('gIs2:questStep + 1 - gIs1:done', 'formulaReq', 'DialogOption')).toEqual([]);
+    expect(ruleIds('d:canAsk', 'fReq')).toEqual([]);
+    expect(ruleIds('c:HP - 10', 'magnitude')).toEqual([]);
+
+    // Only fields the schema marks as conditions are checked
+    expect(ruleIds('c:HP - 10', 'fReq', 'Item')).toEqual([]);
+  });
+
+  test('reports type problems as warnings, alongside argument errors', () => {
+    const result = new ModValidator().validate(
+      '[DialogOption] ID=ask; fReq=lessThan:five:c:HP;\n[ActorValueAffecter] ID=hit; magnitude=moreThan:0:c:HP*3;',
+      'test.txt'
+    );
+
+    expect(result.errors.map(msg => [msg.ruleId, msg.message])).toEqual([
+      ['invalid-operator-argument', "Argument 'threshold' of operator 'lessThan' expects a float, but got: 'five'"],
+    ]);
+    expect(result.warnings.map(msg => [msg.ruleId, msg.line, msg.range?.startColumn])).toEqual([
+      ['condition-precedence', 2, 39],
+    ]);
+  });
+});
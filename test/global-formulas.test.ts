@@ -0,0 +1,73 @@
+/**
+ * Global Formula Tests
+ * Tests for references to [FormulaGlobal]/[GlobalFormula] definitions across files
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+
+function messageSummaries(validator: ModValidator, ruleId: string) {
+  return validator
+    .getCrossFileValidationMessages()
+    .filter(m => m.ruleId === ruleId)
+    .map(m => [m.severity, m.message]);
+}
+
+describe('Global formula validation', () => {
+  test('checks d:, d(...) and dsa: references against defined global formulas', () => {
+    const validator = new ModValidator();
+    validator.validate(`[FormulaGlobal] ID=swordDmg; formula=c:STR*2;`, 'formulas.txt');
+    validator.validate(
+      `[ActorValueAffecter] ID=slash; actorValue=HP; magnitude=d:swordDmg + d(swordDmg) + dsa:slash:swordDmgg + dMin0:axeDmg;`,
+      'abilities.txt'
+    );
+
+    expect(messageSummaries(validator, 'unknown-reference')).toEqual([
+      ['warning', "Unknown GlobalFormula ID 'swordDmgg' referenced by ActorValueAffecter.magnitude"],
+      ['hint', "Unknown GlobalFormula ID 'axeDmg' referenced by ActorValueAffecter.magnitude"],
+    ]);
+  });
+
+  test('reports global formulas that use x without a value for it', () => {
+    const validator = new ModValidator();
+    const result = validator.validate(
+      `[GlobalFormula] ID=scaling; formula=x*c:MagAtk;
+[GlobalFormula] ID=fireScaling; formula=d:scaling(x)+c:skill_Fire;`,
+      'formulas.txt'
+    );
+    validator.validate(
+      `[ActorValueAffecter] ID=blast; actorValue=HP; magnitude=d:scaling(5) + d:fireScaling + dMax1:scaling;`,
+      'abilities.txt'
+    );
+
+    // x is allowed in both spellings of global formulas
+    expect(result.errors).toEqual([]);
+    expect(messageSummaries(validator, 'global-formula-missing-x')).toEqual([
+      ['warning', "Global formula 'fireScaling' uses x, but ActorValueAffecter.magnitude doesn't pass a value for it"],
+      ['warning', "Global formula 'scaling' uses x, but ActorValueAffecter.magnitude doesn't pass a value for it"],
+    ]);
+  });
+
+  test('reports each cycle once with the full chain', () => {
+    const validator = new ModValidator();
+    validator.validate(
+      `[FormulaGlobal] ID=a; formula=d:b+1;
+[FormulaGlobal] ID=b; formula=dMin0:c*2;
+[FormulaGlobal] ID=c; formula=d(a)+d:base;
+[FormulaGlobal] ID=base; formula=10;
+[FormulaGlobal] ID=loop; formula=1+d:loop;`,
+      'formulas.txt'
+    );
+
+    const messages = validator.getCrossFileValidationMessages().filter(m => m.ruleId === 'global-formula-cycle');
+    expect(messages.map(m => [m.severity, m.message])).toEqual([
+      ['error', 'Global formula cycle: a → b → c → a'],
+      ['error', 'Global formula cycle: loop → loop'],
+    ]);
+    expect(messages[0]?.range).toEqual({ startLine: 1, startColumn: 32, endLine: 1, endColumn: 33 });
+    expect(messages[0]?.relatedLocations?.map(location => [location.startLine, location.message])).toEqual([
+      [2, "'b' uses 'c'"],
+      [3, "'c' uses 'a'"],
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Global Variable Flow Tests
+ * Tests for tracking global variable writes and reads across files
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import {
+  GlobalVarIndex,
+  GLOBAL_VAR_TASK_PARAMETERS,
+  GLOBAL_VAR_TASK_LIST_PARAMETERS,
+} from '../src/global-var-index.js';
+import { TaskValidator } from '../src/task-validator.js';
+import { ModParser } from '../src/parser.js';
+import { expectToBeDefined } from './test-utils.js';
+
+function buildIndex(content: string, filePath = 'test.txt'): GlobalVarIndex {
+  return new GlobalVarIndex(new ModParser(content, filePath).parse().objects);
+}
+
+function globalVarMessages(files: Record<string, string>) {
+  const validator = new ModValidator();
+  for (const [filePath, content] of Object.entries(files)) {
+    validator.validate(content, filePath);
+  }
+  return validator.getCrossFileValidationMessages().filter(m => m.message.startsWith('Global variable'));
+}
+
+describe('GlobalVarIndex', () => {
+  test('every task in the global variable table exists', () => {
+    const taskValidator = new TaskValidator();
+    const taskNames = [...Object.keys(GLOBAL_VAR_TASK_PARAMETERS), ...Object.keys(GLOBAL_VAR_TASK_LIST_PARAMETERS)];
+    for (const taskName of taskNames) {
+      expect(taskValidator.resolveTaskName(taskName)).toBe(taskName);
+    }
+  });
+
+  test('indexes writes from task strings with exact positions', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVar,questStep,2;`);
+
+    const accesses = index.getAccesses();
+    expect(accesses).toHaveLength(1);
+    const access = accesses[0];
+    expectToBeDefined(access);
+    expect(access).toMatchObject({ name: 'questStep', kind: 'write', via: 'setGlobalVar', source: 'task' });
+    expect(access.startLine).toBe(2);
+    expect(access.startColumn).toBe(28);
+    expect(access.endColumn).toBe(37);
+  });
+
+  test('indexes variables named by later or repeated task parameters', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+	specialEffect=setGlobalVarToActorProperty,leaderHP,hero,HP;
+	specialEffect=removeItem,torch,itemVar;
+	specialEffect=removeItemsNearPlayerActor,,nearVar,3;
+	specialEffect=removeAllItems,,zoneVar;
+	specialEffect=task_gvar,nextTask;
+	specialEffect=get,debugVar;
+	specialEffect=setupPartyFromGVars,member1,member2,member3;`);
+
+    expect(index.getWrittenNames()).toEqual(['leaderHP']);
+    expect(index.getReadNames()).toEqual([
+      'itemVar',
+      'nearVar',
+      'zoneVar',
+      'nextTask',
+      'debugVar',
+      'member1',
+      'member2',
+      'member3',
+    ]);
+  });
+
+  test('indexes reads from formulas', () => {
+    const index = buildIndex(`[DialogOption] ID=ask; fReq=gIsMoreThan:gold_spent:100 + g:questStep;`);
+
+    expect(index.getReadNames()).toEqual(['gold_spent', 'questStep']);
+    const access = index.getAccesses()[1];
+    expectToBeDefined(access);
+    expect(access.via).toBe('g');
+    expect(access.startColumn).toBe(59);
+  });
+
+  test('indexes reads from formulas inside task strings', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVar_math,total,g:base*2;`);
+
+    expect(index.getWrittenNames()).toEqual(['total']);
+    expect(index.getReadNames()).toEqual(['base']);
+  });
+
+  test('indexes @G parameters as reads', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=spawnItem,@GrewardItem,1;`);
+
+    const access = index.getAccesses()[0];
+    expectToBeDefined(access);
+    expect(access).toMatchObject({ name: 'rewardItem', kind: 'read', via: '@G' });
+    expect(access.startColumn).toBe(27);
+  });
+
+  test('indexes reads from dynamic text', () => {
+    const index = buildIndex(`[DialogNode] ID=intro; statements=You have <g=coins> coins;`);
+
+    expect(index.getReadNames()).toEqual(['coins']);
+    expect(index.getAccesses()[0]?.source).toBe('dynamicText');
+  });
+
+  test('prefix writes cover reads of full names', () => {
+    const index = buildIndex(`[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVarPlusLocID,visited_,1;`);
+
+    expect(index.getWrittenNames()).toEqual([]);
+    expect(index.isWritten('visited_town1')).toBe(true);
+  });
+});
+
+describe('Global variable validation', () => {
+  test('no messages when variables are written in one file and read in another', () => {
+    const messages = globalVarMessages({
+      'set.txt': `[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVar,questStep,2;`,
+      'read.txt': `[DialogOption] ID=ask; fReq=gIs2:questStep;`,
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  test('reports variables read but never written', () => {
+    const messages = globalVarMessages({
+      'read.txt': `[DialogOption] ID=ask; fReq=gIs1:bossDefeated;`,
+    });
+
+    expect(messages).toHaveLength(1);
+    const msg = messages[0];
+    expectToBeDefined(msg);
+    expect(msg.severity).toBe('hint');
+    expect(msg.message).toBe("Global variable 'bossDefeated' is read but never written");
+    expect(msg.isCrossFile).toBe(true);
+  });
+
+  test('reports variables written but never read once per name', () => {
+    const messages = globalVarMessages({
+      'set.txt': `[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVar,unused,1;
+\tspecialEffect=modGlobalVar,unused,1;`,
+    });
+
+    expect(messages.map(m => m.message)).toEqual(["Global variable 'unused' is written but never read"]);
+  });
+
+  test('flags near-miss names with corrections', () => {
+    const messages = globalVarMessages({
+      'set.txt': `[DialogNode] ID=intro;
+\tspecialEffect=setGlobalVar,questStep,2;`,
+      'read.txt': `[DialogOption] ID=ask; fReq=gIs2:questStpe;`,
+    });
+
+    const readMessage = messages.find(m => m.message.includes('read but never written'));
+    expectToBeDefined(readMessage);
+    expect(readMessage.severity).toBe('warning');
+    expect(readMessage.filePath).toBe('read.txt');
+    expect(readMessage.corrections).toEqual([
+      {
+        filePath: 'read.txt',
+        startLine: 1,
+        startColumn: 33,
+        endLine: 1,
+        endColumn: 42,
+        replacementText: 'questStep',
+      },
+    ]);
+
+    const writeMessage = messages.find(m => m.message.includes('written but never read'));
+    expectToBeDefined(writeMessage);
+    expect(writeMessage.corrections?.map(c => c.replacementText)).toEqual(['questStpe']);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Hover Tests
+ * Tests that positions map to the documented element under them
+ */
+
+import { describe, test, expect } from 'vitest';
+import { HoverProvider } from '../src/hover.js';
+import { expectToBeDefined } from './test-utils.js';
+
+const provider = new HoverProvider();
+
+/**
+ * Helper to get hover information at the first occurrence of a marker within a single-line document
+ */
+function hoverAt(content: string, marker: string) {
+  return provider.getHover(content, 1, content.indexOf(marker));
+}
+
+describe('Hover', () => {
+  test('documents object types, including aliases', () => {
+    const hover = hoverAt('[ActionAOE] ID=a;', 'ActionAOE');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('objectType');
+    expect(hover.contents).toContain('Alias of `AreaOfEffect`');
+    expect(hover.range).toEqual({ startLine: 1, startColumn: 1, endLine: 1, endColumn: 10 });
+  });
+
+  test('documents property fields with their C# type', () => {
+    const hover = hoverAt('[ItemType] ID=a; stackable=true;', 'stackable');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('property');
+    expect(hover.contents).toContain('`boolean`');
+    expect(hover.contents).toContain('C# `bool`');
+  });
+
+  test('documents enum values', () => {
+    const hover = hoverAt('[ActorValueAffecter] ID=a; element=water, fire;', 'fire');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('enumValue');
+    expect(hover.range).toEqual({ startLine: 1, startColumn: 42, endLine: 1, endColumn: 46 });
+  });
+
+  test('documents formula operators, resolving aliases', () => {
+    const hover = hoverAt('[DialogOption] ID=ask; fReq=1 + W:power;', 'W:');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('operator');
+    expect(hover.contents).toContain('**weapon**');
+    expect(hover.contents).toContain('`W` is an alias of `weapon`');
+  });
+
+  test('documents operators in formula bodies', () => {
+    const hover = hoverAt('[DialogOption] ID=ask; fReq=min:0:c:HP;', 'c:');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('operator');
+    expect(hover.range.startColumn).toBe(34);
+  });
+
+  test('documents task names', () => {
+    const hover = hoverAt('[DialogOption] ID=ask; specialEffect=setGlobalVar,myVar,done;', 'setGlobalVar');
+
+    expectToBeDefined(hover);
+    expect(hover.kind).toBe('task');
+    expect(hover.contents).toContain('**setGlobalVar** (task)');
+  });
+
+  test('documents positional task parameters by their destination array', () => {
+    const content = '[DialogOption] ID=ask; specialEffect=setGlobalVar,myVar,5;';
+
+    const nameParam = hoverAt(content, 'myVar');
+    expectToBeDefined(nameParam);
+    expect(nameParam.kind).toBe('taskParameter');
+    expect(nameParam.contents).toContain('`strings[0]`');
+
+    const valueParam = hoverAt(content, '5;');
+    expectToBeDefined(valueParam);
+    expect(valueParam.contents).toContain('`floats[0]`');
+  });
+
+  test('documents dynamic text tags and commands', () => {
+    const content = '[DialogOption] ID=ask; text=Hi <g=myVar> <cmd=gAdd=x=1>;';
+
+    const tag = hoverAt(content, 'g=myVar');
+    expectToBeDefined(tag);
+    expect(tag.kind).toBe('dynamicTextTag');
+    expect(tag.contents).toContain('**g**');
+
+    const command = hoverAt(content, 'gAdd');
+    expectToBeDefined(command);
+    expect(command.kind).toBe('dynamicTextCommand');
+    expect(command.contents).toContain('**globalAdd**');
+  });
+
+  test('returns null where nothing is documented', () => {
+    expect(hoverAt('[ItemType] ID=a; colour=red;', 'colour')).toBeNull();
+    expect(hoverAt('[ItemType] ID=a; name=Sword;', 'Sword')).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * JUnit Output Tests
+ * Tests conversion of validation messages into a JUnit XML report, with one test case per object
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { toJUnitXml, type JUnitFile } from '../src/junit.js';
+
+function validateFile(content: string, filePath: string): JUnitFile {
+  const validator = new ModValidator();
+  const result = validator.validate(content, filePath);
+  return {
+    filePath,
+    objects: validator.getParsedObjectsCache().get(filePath) ?? [],
+    messages: [...result.errors, ...result.warnings, ...result.hints, ...result.info],
+  };
+}
+
+describe('JUnit output', () => {
+  test('each object is a test case, failing on error messages', () => {
+    const xml = toJUnitXml([
+      validateFile('[ItemType] ID=sword; stackable=ture;\n[ItemType] ID=shield;\n[Nonsense]', 'items.txt'),
+    ]);
+
+    expect(xml).toContain('<testsuites name="mod-validator" tests="3" failures="2" errors="0">');
+    expect(xml).toContain('<testsuite name="items.txt" tests="3" failures="2" errors="0">');
+    expect(xml).toContain('<testcase name="[ItemType] shield" classname="items.txt"/>');
+    expect(xml).toContain('<failure message="Invalid boolean value for stackable" type="invalid-value">');
+    expect(xml).toContain('<testcase name="[Nonsense] (line 3)" classname="items.txt">');
+  });
+
+  test('other messages are test output, and special characters are escaped', () => {
+    const xml = toJUnitXml([validateFile('[ItemType] ID=sword; stackabel=true;', 'items & more.txt')]);
+
+    expect(xml).toContain('<testsuite name="items &#38; more.txt" tests="1" failures="0" errors="0">');
+    expect(xml).toContain('<testcase name="[ItemType] sword" classname="items &#38; more.txt">');
+    expect(xml).toContain(
+      '<system-out>items &#38; more.txt:1:22: hint: Unknown property &#39;stackabel&#39; for ItemType [unknown-property]'
+    );
+  });
+
+  test('unreadable files are errored test suites', () => {
+    const xml = toJUnitXml([{ filePath: 'missing.txt', objects: [], messages: [], error: 'ENOENT' }]);
+
+    expect(xml).toContain('<testsuites name="mod-validator" tests="1" failures="0" errors="1">');
+    expect(xml).toContain('<error message="ENOENT"/>');
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Language Server Tests
+ * Tests conversion of validation messages into LSP diagnostics, quick-fix code actions and completion items,
+ * and the server keeping diagnostics in sync as documents and files change
+ */
+
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  DidChangeTextDocumentNotification,
+  DidChangeWatchedFilesNotification,
+  DidCloseTextDocumentNotification,
+  DidOpenTextDocumentNotification,
+  FileChangeType,
+  HoverRequest,
+  InitializedNotification,
+  InitializeRequest,
+  PublishDiagnosticsNotification,
+  StreamMessageReader,
+  StreamMessageWriter,
+  createConnection,
+  createMessageConnection,
+  type Diagnostic,
+  type MessageConnection,
+} from 'vscode-languageserver/node.js';
+import { PassThrough } from 'stream';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModValidator } from '../src/validator.js';
+import {
+  ModValidatorLanguageServer,
+  toDiagnostic,
+  toCodeActions,
+  toCompletionItems,
+  pathToUri,
+  uriToPath,
+} from '../src/lsp.js';
+import { CompletionProvider } from '../src/completion.js';
+import { expectToBeDefined } from './test-utils.js';
+
+describe('Language server', () => {
+  test('diagnostics use 0-indexed lines and map severities', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('[ItemType] ID=item;\n\tstackable=ture;', '/mods/test.txt');
+
+    const msg = result.errors[0];
+    expectToBeDefined(msg);
+    const diagnostic = toDiagnostic(msg);
+
+    expect(diagnostic.severity).toBe(DiagnosticSeverity.Error);
+    expect(diagnostic.source).toBe('mod-validator');
+    expect(diagnostic.range).toEqual({ start: { line: 1, character: 11 }, end: { line: 1, character: 15 } });
+  });
+
+  test('related locations become related information', () => {
+    const validator = new ModValidator();
+    validator.validate('[ItemType] ID=sword; value=1;', '/mods/a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', '/mods/b.txt');
+
+    const msg = validator.getCrossFileValidationMessages().find(m => m.filePath === '/mods/a.txt');
+    expectToBeDefined(msg);
+    const diagnostic = toDiagnostic(msg);
+
+    expect(diagnostic.relatedInformation).toEqual([
+      {
+        location: {
+          uri: pathToUri('/mods/b.txt'),
+          range: { start: { line: 0, character: 14 }, end: { line: 0, character: 19 } },
+        },
+        message: 'Conflicting definition',
+      },
+    ]);
+  });
+
+  test('corrections become quick-fix edits', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('[Action] ID=test; applyWeponBuffs=true;', '/mods/test.txt');
+
+    const msg = result.hints.find(m => m.message.includes('Unknown property'));
+    expectToBeDefined(msg);
+    const actions = toCodeActions([toDiagnostic(msg)]);
+
+    const action = actions[0];
+    expectToBeDefined(action);
+    expect(action.kind).toBe('quickfix');
+    expect(action.edit?.changes?.[pathToUri('/mods/test.txt')]).toEqual([
+      {
+        range: { start: { line: 0, character: 18 }, end: { line: 0, character: 33 } },
+        newText: 'applyWeaponBuffs',
+      },
+    ]);
+  });
+
+  test('navigation-only corrections produce no code actions', () => {
+    const validator = new ModValidator();
+    validator.validate('[ItemType] ID=sword; value=1;', '/mods/a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', '/mods/b.txt');
+
+    const diagnostics = validator.getCrossFileValidationMessages().map(msg => toDiagnostic(msg));
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(toCodeActions(diagnostics)).toEqual([]);
+  });
+
+  test('completions replace the partial word before the cursor', () => {
+    const list = new CompletionProvider().getCompletions('[ItemType] ID=a; stackable=t', 1, 28);
+    const item = toCompletionItems(list)[0];
+
+    expectToBeDefined(item);
+    expect(item.kind).toBe(CompletionItemKind.EnumMember);
+    expect(item.textEdit).toEqual({
+      range: { start: { line: 0, character: 27 }, end: { line: 0, character: 28 } },
+      newText: 'true',
+    });
+  });
+
+  test('file paths round-trip through URIs', () => {
+    expect(uriToPath(pathToUri('/mods/My Mod/items.txt'))).toBe('/mods/My Mod/items.txt');
+  });
+});
+
+describe('Language server protocol', () => {
+  const cleanups: (() => void)[] = [];
+
+  afterEach(() => {
+    for (const cleanup of cleanups.splice(0)) {
+      cleanup();
+    }
+  });
+
+  /**
+   * Create a workspace folder with the given files
+   */
+  function createWorkspace(files: Record<string, string>): string {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mod-validator-lsp-'));
+    cleanups.push(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(rootDir, name), content);
+    }
+    return rootDir;
+  }
+
+  /**
+   * Start a server on in-memory streams and connect a client that records published diagnostics
+   */
+  async function startServer(rootDir: string) {
+    const toServer = new PassThrough();
+    const toClient = new PassThrough();
+    const serverConnection = createConnection(new StreamMessageReader(toServer), new StreamMessageWriter(toClient));
+    new ModValidatorLanguageServer(serverConnection).listen();
+
+    const client: MessageConnection = createMessageConnection(
+      new StreamMessageReader(toClient),
+      new StreamMessageWriter(toServer)
+    );
+    const diagnostics = new Map<string, Diagnostic[]>();
+    const publishCounts = new Map<string, number>();
+    client.onNotification(PublishDiagnosticsNotification.type, params => {
+      diagnostics.set(params.uri, params.diagnostics);
+      publishCounts.set(params.uri, (publishCounts.get(params.uri) ?? 0) + 1);
+    });
+    client.listen();
+    cleanups.push(() => {
+      client.dispose();
+      serverConnection.dispose();
+    });
+
+    await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: pathToUri(rootDir),
+      capabilities: {},
+      workspaceFolders: null,
+    });
+    await client.sendNotification(InitializedNotification.type, {});
+
+    // The server handles messages in order, so a response means earlier notifications have been handled
+    const roundTrip = () =>
+      client.sendRequest(HoverRequest.type, {
+        textDocument: { uri: 'untitled:sync' },
+        position: { line: 0, character: 0 },
+      });
+
+    // Edited documents are revalidated after a pause, so wait for that as well
+    const sync = async () => {
+      await roundTrip();
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await roundTrip();
+    };
+
+    /**
+     * Get the rule IDs of the diagnostics last published to a URI
+     */
+    const codes = (uri: string) => diagnostics.get(uri)?.map(diagnostic => diagnostic.code);
+
+    await sync();
+    return { client, diagnostics, publishCounts, sync, codes };
+  }
+
+  test('publishes diagnostics to the URIs documents were opened with', async () => {
+    const rootDir = createWorkspace({ 'items.txt': '[ItemType] ID=sword; value=1;' });
+    const { client, diagnostics, sync, codes } = await startServer(rootDir);
+    const itemsUri = pathToUri(path.join(rootDir, 'items.txt'));
+    const untitledUri = 'untitled:Untitled-1';
+
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: untitledUri, languageId: 'plaintext', version: 1, text: '[ItemType] ID=sword; value=2;' },
+    });
+    await sync();
+
+    expect(codes(untitledUri)).toEqual(['duplicate-id']);
+    expect(codes(itemsUri)).toEqual(['duplicate-id']);
+    expect(diagnostics.get(itemsUri)?.[0]?.relatedInformation?.[0]?.location.uri).toBe(untitledUri);
+
+    // An encoded file URI still refers to the file on disk, but diagnostics go to the URI the client used
+    const encodedItemsUri = itemsUri.replace(/items\.txt$/, '%69tems.txt');
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: {
+        uri: encodedItemsUri,
+        languageId: 'plaintext',
+        version: 1,
+        text: '[ItemType] ID=sword; value=1; stackable=ture;',
+      },
+    });
+    await sync();
+
+    expect(codes(encodedItemsUri)).toEqual(['invalid-value', 'duplicate-id']);
+    expect(codes(itemsUri)).toEqual([]);
+  });
+
+  test('open, change and close keep cross-file diagnostics in sync', async () => {
+    const rootDir = createWorkspace({ 'items.txt': '[ItemType] ID=sword; value=1;' });
+    const { client, sync, codes } = await startServer(rootDir);
+    const itemsUri = pathToUri(path.join(rootDir, 'items.txt'));
+    const untitledUri = 'untitled:Untitled-1';
+
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: untitledUri, languageId: 'plaintext', version: 1, text: '[ItemType] ID=sword; value=2;' },
+    });
+    await sync();
+    expect(codes(itemsUri)).toEqual(['duplicate-id']);
+
+    await client.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri: untitledUri, version: 2 },
+      contentChanges: [{ text: '[ItemType] ID=shield; value=2;' }],
+    });
+    await sync();
+    expect(codes(itemsUri)).toEqual([]);
+    expect(codes(untitledUri)).toEqual([]);
+
+    await client.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri: untitledUri, version: 3 },
+      contentChanges: [{ text: '[ItemType] ID=sword; value=3;' }],
+    });
+    await sync();
+    expect(codes(itemsUri)).toEqual(['duplicate-id']);
+
+    // Closing an unsaved document removes its definitions from the project
+    await client.sendNotification(DidCloseTextDocumentNotification.type, { textDocument: { uri: untitledUri } });
+    await sync();
+    expect(codes(itemsUri)).toEqual([]);
+    expect(codes(untitledUri)).toEqual([]);
+  });
+
+  test('revalidates once after a burst of edits', async () => {
+    const rootDir = createWorkspace({});
+    const { client, publishCounts, sync, codes } = await startServer(rootDir);
+    const untitledUri = 'untitled:Untitled-1';
+
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: untitledUri, languageId: 'plaintext', version: 1, text: '[ItemType] ID=sword;' },
+    });
+    await sync();
+    const published = publishCounts.get(untitledUri) ?? 0;
+
+    for (const [version, value] of [
+      [2, 't'],
+      [3, 'tr'],
+      [4, 'ture'],
+    ] as const) {
+      await client.sendNotification(DidChangeTextDocumentNotification.type, {
+        textDocument: { uri: untitledUri, version },
+        contentChanges: [{ text: `[ItemType] ID=sword; stackable=${value};` }],
+      });
+    }
+    await sync();
+
+    expect(publishCounts.get(untitledUri)).toBe(published + 1);
+    expect(codes(untitledUri)).toContain('invalid-value');
+  });
+
+  test('watched file changes keep the project cache in sync', async () => {
+    const rootDir = createWorkspace({ 'a.txt': '[ItemType] ID=sword; value=1;' });
+    const { client, sync, codes } = await startServer(rootDir);
+    const aUri = pathToUri(path.join(rootDir, 'a.txt'));
+    const bPath = path.join(rootDir, 'b.txt');
+    const bUri = pathToUri(bPath);
+
+    fs.writeFileSync(bPath, '[ItemType] ID=sword; value=2;');
+    await client.sendNotification(DidChangeWatchedFilesNotification.type, {
+      changes: [{ uri: bUri, type: FileChangeType.Created }],
+    });
+    await sync();
+    expect(codes(aUri)).toEqual(['duplicate-id']);
+    expect(codes(bUri)).toEqual(['duplicate-id']);
+
+    fs.writeFileSync(bPath, '[ItemType] ID=shield; value=2;');
+    await client.sendNotification(DidChangeWatchedFilesNotification.type, {
+      changes: [{ uri: bUri, type: FileChangeType.Changed }],
+    });
+    await sync();
+    expect(codes(aUri)).toEqual([]);
+
+    fs.writeFileSync(bPath, '[ItemType] ID=sword; value=2;');
+    await client.sendNotification(DidChangeWatchedFilesNotification.type, {
+      changes: [{ uri: bUri, type: FileChangeType.Changed }],
+    });
+    await sync();
+    expect(codes(aUri)).toEqual(['duplicate-id']);
+
+    fs.rmSync(bPath);
+    await client.sendNotification(DidChangeWatchedFilesNotification.type, {
+      changes: [{ uri: bUri, type: FileChangeType.Deleted }],
+    });
+    await sync();
+    expect(codes(aUri)).toEqual([]);
+    expect(codes(bUri)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Message Range Tests
+ * Tests that validation messages carry exact source ranges and related locations
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import type { ValidationResult } from '../src/types.js';
+import { expectToBeDefined } from './test-utils.js';
+
+function allMessages(result: ValidationResult) {
+  return [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+}
+
+describe('Message ranges', () => {
+  test('every message from validate() has a range starting on its line', () => {
+    const modContent = `[Acton] ID=test;
+[ItemType] ID=item; stackable=ture; colour=red;
+[DialogOption] ID=ask; fReq=c:HP +;
+[Action] ID=lonely;`;
+
+    const validator = new ModValidator();
+    const messages = allMessages(validator.validate(modContent, 'test.txt'));
+
+    expect(messages.length).toBeGreaterThan(0);
+    for (const msg of messages) {
+      expectToBeDefined(msg.range);
+      expect(msg.range.startLine).toBe(msg.line);
+    }
+  });
+
+  test('unknown properties cover the property name', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('[ItemType] ID=item; colour=red;', 'test.txt');
+
+    const msg = result.hints.find(m => m.message.includes("Unknown property 'colour'"));
+    expectToBeDefined(msg);
+    expect(msg.range).toEqual({ startLine: 1, startColumn: 20, endLine: 1, endColumn: 26 });
+  });
+
+  test('invalid values cover the property value', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('[ItemType] ID=item; stackable=ture;', 'test.txt');
+
+    const msg = result.errors[0];
+    expectToBeDefined(msg);
+    expect(msg.range).toEqual({ startLine: 1, startColumn: 30, endLine: 1, endColumn: 34 });
+  });
+
+  test('formula errors cover the offending node', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('[DialogOption] ID=ask; fReq=c:HP + mni:1,2;', 'test.txt');
+
+    const msg = result.errors.find(m => m.message.includes('mni'));
+    expectToBeDefined(msg);
+    expect(msg.range?.startColumn).toBe(35);
+  });
+
+  test('messages without a specific span cover their whole line', () => {
+    const validator = new ModValidator();
+    const result = validator.validate('  [Action] ID=lonely;  ', 'test.txt');
+
+    const msg = result.errors.find(m => m.message.includes('must be followed by [ActionAoE]'));
+    expectToBeDefined(msg);
+    expect(msg.range).toEqual({ startLine: 1, startColumn: 2, endLine: 1, endColumn: 21 });
+  });
+});
+
+describe('Related locations', () => {
+  test('conflicting duplicate IDs link to every other copy', () => {
+    const validator = new ModValidator();
+    validator.validate('[ItemType] ID=sword; value=1;', 'a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', 'b.txt');
+
+    const messages = validator.getCrossFileValidationMessages();
+    expect(messages).toHaveLength(2);
+
+    const msg = messages.find(m => m.filePath === 'a.txt');
+    expectToBeDefined(msg);
+    expect(msg.range).toEqual({ startLine: 1, startColumn: 14, endLine: 1, endColumn: 19 });
+    expect(msg.relatedLocations).toEqual([
+      {
+        filePath: 'b.txt',
+        startLine: 1,
+        startColumn: 14,
+        endLine: 1,
+        endColumn: 19,
+        message: 'Conflicting definition',
+      },
+    ]);
+  });
+
+  test('repeated scalar fields link to the last assignment', () => {
+    const validator = new ModValidator();
+    const result = validator.validate(
+      `[ItemType] ID=item;
+\tvalue=1;
+\tvalue=2;`,
+      'test.txt'
+    );
+
+    const msg = result.warnings[0];
+    expectToBeDefined(msg);
+    expect(msg.relatedLocations?.map(r => r.startLine)).toEqual([3]);
+  });
+
+  test('cross-file messages are plain data', () => {
+    const validator = new ModValidator();
+    validator.validate('[DialogOption] ID=ask; fReq=gIs1:unsetVar;', 'test.txt');
+
+    const messages = validator.getCrossFileValidationMessages();
+    expect(messages.length).toBeGreaterThan(0);
+    expect(() => JSON.stringify(messages)).not.toThrow();
+    expect(messages[0]?.range).toEqual({ startLine: 1, startColumn: 33, endLine: 1, endColumn: 41 });
+  });
+});
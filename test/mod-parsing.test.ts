@@ -190,6 +190,36 @@ describe('Mod File Parsing', () => {
     });
   });
 
+  describe('Repeated properties', () => {
+    test('keeps every assignment in order', () => {
+      const input = `[Action] ID=test;
+	FXOnCaster=chargeup;
+	FXOnCaster=casting;`;
+      const parser = new ModParser(input, 'test.txt');
+      const { objects, errors } = parser.parse();
+
+      expectValid(errors);
+      expect(objects[0]?.assignments.map(a => `${a.name}=${a.info.value}`)).toEqual([
+        'ID=test',
+        'FXOnCaster=chargeup',
+        'FXOnCaster=casting',
+      ]);
+      expect(objects[0]?.assignments[1]?.info.nameStartLine).toBe(2);
+      expect(objects[0]?.assignments[2]?.info.nameStartLine).toBe(3);
+    });
+
+    test('properties map holds the last assignment', () => {
+      const input = '[ItemType] ID=test; value=10; value=20;';
+      const parser = new ModParser(input, 'test.txt');
+      const { objects, errors } = parser.parse();
+
+      expectValid(errors);
+      expect(objects[0]?.properties.size).toBe(2);
+      expect(objects[0]?.properties.get('value')?.value).toBe('20');
+      expect(objects[0]?.properties.has('value+')).toBe(false);
+    });
+  });
+
   describe('Error handling', () => {
     test('reports missing closing bracket', () => {
       const input = '[Action ID=test;';
@@ -0,0 +1,76 @@
+/**
+ * Navigation Tests
+ * Tests go-to-definition and find-all-references for IDs across files
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { expectToBeDefined } from './test-utils.js';
+
+function createValidator(): ModValidator {
+  const validator = new ModValidator();
+  validator.validate('[ItemType] ID=potion; value=5;\n[ItemType] ID=bigPotion; cloneFrom=potion;', '/mods/items.txt');
+  validator.validate('[Item] ID=potion;\n[DialogOption] ID=ask; fReq=item:potion;', '/mods/dialog.txt');
+  return validator;
+}
+
+describe('Navigation', () => {
+  test('finds the definition of a cloneFrom value', () => {
+    const validator = createValidator();
+
+    const definitions = validator.findDefinitions('/mods/items.txt', 2, 36);
+    expect(definitions).toHaveLength(1);
+    const definition = definitions[0];
+    expectToBeDefined(definition);
+    expect(definition.object.filePath).toBe('/mods/items.txt');
+    expect(definition.idProperty.valueStartColumn).toBe(14);
+  });
+
+  test('finds definitions from references in other files, including formula arguments', () => {
+    const validator = createValidator();
+
+    expect(validator.findDefinitions('/mods/dialog.txt', 1, 12)).toHaveLength(1);
+    expect(validator.findDefinitions('/mods/dialog.txt', 2, 34)).toHaveLength(1);
+  });
+
+  test('a position right after the ID counts', () => {
+    const validator = createValidator();
+
+    expect(validator.findDefinitions('/mods/dialog.txt', 2, 39)).toHaveLength(1);
+  });
+
+  test('finds every reference from a definition ID', () => {
+    const validator = createValidator();
+
+    const refs = validator.findReferences('/mods/items.txt', 1, 15);
+    expect(refs.map(ref => [ref.kind, ref.filePath, ref.startLine])).toEqual([
+      ['cloneFrom', '/mods/items.txt', 2],
+      ['instance', '/mods/dialog.txt', 1],
+      ['formulaArgument', '/mods/dialog.txt', 2],
+    ]);
+  });
+
+  test('lists inbound references to an object', () => {
+    const validator = createValidator();
+
+    const potion = validator.getParsedObjectsCache().get('/mods/items.txt')?.[0];
+    expectToBeDefined(potion);
+    expect(validator.getReferencesToObject(potion)).toHaveLength(3);
+  });
+
+  test('returns nothing where there is no ID', () => {
+    const validator = createValidator();
+
+    expect(validator.findDefinitions('/mods/items.txt', 1, 28)).toEqual([]);
+    expect(validator.findReferences('/mods/items.txt', 1, 3)).toEqual([]);
+  });
+
+  test('reports unknown IDs in formula arguments', () => {
+    const validator = new ModValidator();
+    validator.validate('[DialogOption] ID=ask; fReq=item:missingThing;', '/mods/dialog.txt');
+
+    const msg = validator.getCrossFileValidationMessages().find(m => m.message.includes('missingThing'));
+    expectToBeDefined(msg);
+    expect(msg.range).toEqual({ startLine: 1, startColumn: 33, endLine: 1, endColumn: 45 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Rename Tests
+ * Tests that renaming a definition ID edits every occurrence across files, and refuses unsafe renames
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { applyCorrections } from '../src/position-utils.js';
+
+const ACTIONS = `[Action] ID=slash;
+[ActionAoE] ID=slash;
+[AvAffecter] ID=slash; actorValue=HP; magnitude=1;
+[AvAffecterAoE] ID=slash;
+[Action] ID=bigSlash; cloneFrom=slash;`;
+
+const ACTORS = `[ActorType] ID=knight; unarmedAction=slash;
+[DialogNode] ID=intro; specialEffect=action,slash;`;
+
+function createValidator(): ModValidator {
+  const validator = new ModValidator();
+  validator.validate(ACTIONS, '/mods/actions.txt');
+  validator.validate(ACTORS, '/mods/actors.txt');
+  return validator;
+}
+
+describe('Rename', () => {
+  test('renames an Action, its sub-objects and every reference across files', () => {
+    const validator = createValidator();
+
+    const result = validator.renameId('/mods/actions.txt', 1, 12, 'cut');
+    expect(result.error).toBeUndefined();
+    const corrections = result.corrections ?? [];
+
+    const forFile = (filePath: string) => corrections.filter(c => c.filePath === filePath);
+    expect(applyCorrections(ACTIONS, forFile('/mods/actions.txt'))).toBe(`[Action] ID=cut;
+[ActionAoE] ID=cut;
+[AvAffecter] ID=cut; actorValue=HP; magnitude=1;
+[AvAffecterAoE] ID=cut;
+[Action] ID=bigSlash; cloneFrom=cut;`);
+    expect(applyCorrections(ACTORS, forFile('/mods/actors.txt'))).toBe(`[ActorType] ID=knight; unarmedAction=cut;
+[DialogNode] ID=intro; specialEffect=action,cut;`);
+  });
+
+  test('can start from a reference or a sub-object ID', () => {
+    const validator = createValidator();
+
+    expect(validator.renameId('/mods/actors.txt', 1, 38, 'cut').corrections).toHaveLength(7);
+    expect(validator.renameId('/mods/actions.txt', 2, 15, 'cut').corrections).toHaveLength(7);
+  });
+
+  test('renames Item instances along with their ItemType', () => {
+    const validator = new ModValidator();
+    validator.validate('[ItemType] ID=potion;\n[Item] ID=potion;', '/mods/items.txt');
+
+    const result = validator.renameId('/mods/items.txt', 1, 14, 'elixir');
+    expect(result.corrections?.map(c => [c.startLine, c.startColumn, c.replacementText])).toEqual([
+      [1, 14, 'elixir'],
+      [2, 10, 'elixir'],
+    ]);
+  });
+
+  test('renames the cloneFrom of definitions that extend themselves', () => {
+    const validator = new ModValidator();
+    const monsters = `[ActorType] ID=wolf; HP=10;
+[ActorType] ID=wolf; cloneFrom=wolf; HP=20;
+[ActorType] ID=direWolf; cloneFrom=wolf;`;
+    validator.validate(monsters, '/mods/monsters.txt');
+
+    const result = validator.renameId('/mods/monsters.txt', 1, 15, 'warg');
+    expect(result.error).toBeUndefined();
+    expect(applyCorrections(monsters, result.corrections ?? [])).toBe(`[ActorType] ID=warg; HP=10;
+[ActorType] ID=warg; cloneFrom=warg; HP=20;
+[ActorType] ID=direWolf; cloneFrom=warg;`);
+  });
+
+  test('refuses when the new ID is already defined', () => {
+    const validator = createValidator();
+
+    expect(validator.renameId('/mods/actions.txt', 1, 12, 'bigSlash')).toEqual({
+      error: "Action 'bigSlash' is already defined in the loaded files",
+    });
+  });
+
+  test('refuses invalid IDs and positions without a definition ID', () => {
+    const validator = createValidator();
+
+    expect(validator.renameId('/mods/actions.txt', 1, 12, 'two words').error).toBe("'two words' is not a valid ID");
+    expect(validator.renameId('/mods/actions.txt', 1, 2, 'cut').error).toBe('No ID to rename at this position');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * SARIF Output Tests
+ * Tests conversion of validation messages into a SARIF 2.1.0 log
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import { toSarifLog } from '../src/sarif.js';
+import type { ValidationMessage } from '../src/types.js';
+import { expectToBeDefined } from './test-utils.js';
+
+const OPTIONS = { toolVersion: '1.0.0', baseDir: '/mods', referenceBaseUrl: 'https://example.com/validator' };
+
+function allMessages(validator: ModValidator, content: string, filePath: string): ValidationMessage[] {
+  const result = validator.validate(content, filePath);
+  return [...result.errors, ...result.warnings, ...result.hints, ...result.info];
+}
+
+describe('SARIF output', () => {
+  test('maps severities to levels and ranges to 1-indexed regions', () => {
+    const validator = new ModValidator();
+    const messages = allMessages(validator, '[ItemType] ID=item;\n\tstackable=ture;', '/mods/items/test.txt');
+
+    const result = toSarifLog(messages, [], OPTIONS).runs[0]?.results[0];
+    expectToBeDefined(result);
+    expect(result.level).toBe('error');
+    expect(result.locations[0]?.physicalLocation).toEqual({
+      artifactLocation: { uri: 'items/test.txt' },
+      region: { startLine: 2, startColumn: 12, endLine: 2, endColumn: 16 },
+    });
+  });
+
+  test('corrections become fixes', () => {
+    const validator = new ModValidator();
+    const messages = allMessages(validator, '[Action] ID=test; applyWeponBuffs=true;', '/mods/test.txt');
+
+    const log = toSarifLog(messages, [], OPTIONS);
+    const result = log.runs[0]?.results.find(r => r.message.text.includes('Unknown property'));
+    expectToBeDefined(result);
+    expect(result.level).toBe('note');
+    expect(result.fixes).toEqual([
+      {
+        description: { text: "Change to 'applyWeaponBuffs'" },
+        artifactChanges: [
+          {
+            artifactLocation: { uri: 'test.txt' },
+            replacements: [
+              {
+                deletedRegion: { startLine: 1, startColumn: 19, endLine: 1, endColumn: 34 },
+                insertedContent: { text: 'applyWeaponBuffs' },
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('formula and task references become rule help links', () => {
+    const validator = new ModValidator();
+    const messages = allMessages(
+      validator,
+      '[DialogOption] ID=ask; fReq=min:1; specialEffect=setGlobalVar;',
+      '/mods/test.txt'
+    );
+
+    const run = toSarifLog(messages, [], OPTIONS).runs[0];
+    expectToBeDefined(run);
+    const helpUris = run.tool.driver.rules.map(rule => rule.helpUri);
+    expect(helpUris).toContain('https://example.com/validator/formulas.html?operator=min');
+    expect(helpUris).toContain('https://example.com/validator/tasks.html?task=setGlobalVar');
+
+    for (const result of run.results) {
+      expect(run.tool.driver.rules[result.ruleIndex]?.id).toBe(result.ruleId);
+    }
+  });
+
+  test('related locations and navigation-only corrections', () => {
+    const validator = new ModValidator();
+    validator.validate('[ItemType] ID=sword; value=1;', '/mods/a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', '/mods/b.txt');
+
+    const log = toSarifLog(validator.getCrossFileValidationMessages(), [], OPTIONS);
+    const result = log.runs[0]?.results.find(r => r.locations[0]?.physicalLocation.artifactLocation.uri === 'a.txt');
+    expectToBeDefined(result);
+    expect(result.relatedLocations?.[0]?.physicalLocation.artifactLocation.uri).toBe('b.txt');
+    expect(result.fixes).toBeUndefined();
+  });
+
+  test('unreadable files become tool notifications, and paths outside the base directory become file URIs', () => {
+    const log = toSarifLog([], [{ filePath: '/elsewhere/missing.txt', error: 'ENOENT' }], OPTIONS);
+
+    expect(log.runs[0]?.invocations[0]?.toolExecutionNotifications).toEqual([
+      {
+        level: 'error',
+        message: { text: 'ENOENT' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///elsewhere/missing.txt' } } }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Suppression Comment Tests
+ * Tests that comment directives drop matching messages, and that unused or invalid directives are reported
+ */
+
+import { describe, test, expect } from 'vitest';
+import { ModValidator } from '../src/validator.js';
+import type { ValidationMessage } from '../src/types.js';
+
+function validateAll(content: string, filePath = 'test.txt'): ValidationMessage[] {
+  const validator = new ModValidator();
+  const result = validator.validate(content, filePath);
+  return [
+    ...result.errors,
+    ...result.warnings,
+    ...result.hints,
+    ...result.info,
+    ...validator.getCrossFileValidationMessages(),
+  ];
+}
+
+function ruleLines(messages: ValidationMessage[]): string[] {
+  return messages.map(msg => `${msg.line}:${msg.ruleId}`);
+}
+
+describe('Suppression comments', () => {
+  test('disable-next-line and disable-line apply to a single line', () => {
+    const messages = validateAll(`[ItemType] ID=a;
+-- modval-disable-next-line unknown-property
+\tstackabel=true;
+\tstackabel2=true; -- modval-disable-line unknown-property -- kept for an old save
+\tstackabel3=true;`);
+
+    expect(ruleLines(messages)).toEqual(['5:unknown-property']);
+  });
+
+  test('disable and enable suppress the lines between them', () => {
+    const messages = validateAll(`[ItemType] ID=a;
+-- modval-disable unknown-property, repeated-property
+\tstackabel=true;
+\tstackabel2=true;
+-- modval-enable
+\tstackabel3=true;`);
+
+    expect(ruleLines(messages)).toEqual(['6:unknown-property', '2:unused-suppression']);
+    expect(messages[1]?.message).toBe("Unused suppression for 'repeated-property'");
+  });
+
+  test('file-level disables and disables without rule IDs', () => {
+    expect(validateAll('-- modval-disable-file\n[ItemType] ID=a; stackabel=true;\n[Nonsense] ID=b;')).toEqual([]);
+    expect(
+      ruleLines(validateAll('[ItemType] ID=a; stackabel=true;\n-- modval-disable-file unknown-object-type'))
+    ).toEqual(['1:unknown-property', '2:unused-suppression']);
+  });
+
+  test('cross-file messages can be suppressed', () => {
+    const validator = new ModValidator();
+    validator.validate('-- modval-disable-next-line duplicate-id\n[ItemType] ID=sword; value=1;', 'a.txt');
+    validator.validate('[ItemType] ID=sword; value=2;', 'b.txt');
+
+    const messages = validator.getCrossFileValidationMessages();
+    expect(messages.map(msg => `${msg.filePath}:${msg.ruleId}`)).toEqual(['b.txt:duplicate-id']);
+
+    // The suppression becomes unused once the duplicate is gone
+    validator.removeFromCache('b.txt');
+    expect(validator.getCrossFileValidationMessages().map(msg => msg.ruleId)).toEqual(['unused-suppression']);
+  });
+
+  test('unknown directives and rule IDs are reported with corrections', () => {
+    const messages = validateAll(`-- modval-disabel unknown-property
+-- modval-disable-line unknown-proprety
+-- modval-enable
+[ItemType] ID=a;`);
+
+    expect(messages.map(msg => [msg.ruleId, msg.message, msg.corrections?.[0]?.replacementText])).toEqual([
+      ['invalid-suppression', "Unknown suppression directive 'modval-disabel'", 'modval-disable'],
+      ['invalid-suppression', "Unknown rule 'unknown-proprety'", 'unknown-property'],
+      ['invalid-suppression', 'modval-enable without a matching modval-disable', undefined],
+    ]);
+    expect(messages[1]?.range).toEqual({ startLine: 2, startColumn: 23, endLine: 2, endColumn: 39 });
+  });
+});
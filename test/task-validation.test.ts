@@ -584,7 +584,18 @@ describe('Task String Validation', () => {
           fReq=c:HP>50;`;
 
       const result = validator.validate(modContent, 'test.txt');
-      expectValid(result);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    test('warns when fReq returns a number rather than a condition', () => {
+      // c:HP>50 reads the actor value named 'HP>50', so the condition holds whenever that value is more than 0
+      const modContent = `[Trigger] ID=testTrigger;
+        [TriggerEffect]
+          effectID=abil;
+          fReq=c:HP>50;`;
+
+      const result = validator.validate(modContent, 'test.txt');
+      expectMessage(result, { text: "'fReq' is a condition, but this formula returns a number", severity: 'warning' });
     });
 
     test('errors on invalid formula syntax in fReq', () => {
@@ -3,7 +3,7 @@
  */
 
 import { expect } from 'vitest';
-import type { ValidationMessage, ValidationResult, ValidationSeverity } from '../src/types.js';
+import type { ValidationMessage, ValidationResult, ValidationSeverity, VanillaIdsData } from '../src/types.js';
 import type { ASTNode, PositionInfo } from '../src/formula-parser.js';
 import { AssertionError } from 'chai';
 
@@ -42,6 +42,18 @@ export function stripPositions(node: ASTNode | readonly ASTNode[]): unknown {
   return Object.fromEntries(entries);
 }
 
+/**
+ * Base game ID catalog for tests that need base game IDs
+ * The bundled vanilla-ids.json stays empty until it's extracted from the game's data
+ */
+export const TEST_BASE_GAME_IDS: VanillaIdsData = {
+  gameVersion: '1.5.97',
+  definitions: {
+    ActorValue: ['HP', 'MP', 'MagAtk', 'skill_Fire'],
+    ItemType: ['ironSword'],
+  },
+};
+
 function assertExhaustive(_param: never): never {
   throw new Error('this should never run');
 }
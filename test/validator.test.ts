@@ -232,6 +232,51 @@ describe('Mod Validator Integration', () => {
     });
   });
 
+  describe('Repeated properties', () => {
+    test('validates every assignment of a repeated property', () => {
+      const modContent = `[ItemType] ID=test;
+\tstackable=ture;
+\tstackable=true;`;
+
+      const validator = new ModValidator();
+      const result = validator.validate(modContent, 'test.txt');
+
+      expect(result.errors.map(e => e.line)).toEqual([2]);
+    });
+
+    test('warns when a scalar field is assigned more than once', () => {
+      const modContent = `[ItemType] ID=test;
+\tvalue=10;
+\tvalue=20;`;
+
+      const validator = new ModValidator();
+      const result = validator.validate(modContent, 'test.txt');
+
+      expect(result.warnings).toHaveLength(1);
+      const warning = result.warnings[0];
+      expectToBeDefined(warning);
+      expect(warning.message).toBe("Property 'value' is assigned more than once in ItemType");
+      expect(warning.line).toBe(2);
+      expect(warning.context).toBe('Only the last assignment (line 3) takes effect');
+    });
+
+    test('allows repeated List fields', () => {
+      const modContent = `[Action] ID=test;
+\tFXOnCaster=chargeup;
+\tFXOnCasterColor=Purple;
+\tFXOnCaster=casting;
+\tFXOnCasterColor=Purple;
+[ActionAoE] ID=test;
+[AvAffecter] ID=test;
+[AvAffecterAoE] ID=test;`;
+
+      const validator = new ModValidator();
+      const result = validator.validate(modContent, 'test.txt');
+
+      expectValid(result);
+    });
+  });
+
   describe('Vector validation', () => {
     test('validates Vector2 format', () => {
       const modContent = `[Item] ID=test;